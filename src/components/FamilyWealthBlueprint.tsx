@@ -1,95 +1,286 @@
-import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef, useDeferredValue } from 'react';
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
   ReferenceLine,
+  ReferenceDot,
 } from 'recharts';
 import { buildFamilyReportHtml } from './wealthReport/familyReportHtml';
 import { captureElementAsPngDataUrl } from './wealthReport/captureChartForPdf';
 import { exportReportToPdf } from './wealthReport/openReportWindow';
+import { forLogScale, logAxisTicks, niceAxisMax, niceAxisTicks } from './chartScale';
+import { shortMoney, signedShortMoney } from './moneyLabels';
+import ValueBasisControl from './projectionControls/ValueBasisControl';
+import ChartModeControl, { type ChartMode } from './projectionControls/ChartModeControl';
+import YearByYearTable from './projectionControls/YearByYearTable';
+import FrequencyControls from './projectionControls/FrequencyControls';
+import FeeControls from './projectionControls/FeeControls';
+import DividendControls, { type DividendSettings } from './projectionControls/DividendControls';
+import PortfolioControls, { blockColour } from './projectionControls/PortfolioControls';
+import GlidePathControls, { glidePathSchedule, type GlidePathSettings } from './projectionControls/GlidePathControls';
+import StressTestControls from './projectionControls/StressTestControls';
+import MonteCarloControls from './projectionControls/MonteCarloControls';
+import BacktestControls from './projectionControls/BacktestControls';
+import DrawdownControls, { type DrawdownPlan } from './projectionControls/DrawdownControls';
+import SequenceRiskPanel, { type SequenceRiskRow } from './projectionControls/SequenceRiskPanel';
+import PotControls, { type PotChartView, type PotSettings } from './projectionControls/PotControls';
+import SuperAccessControl from './projectionControls/SuperAccessControl';
+import SalaryControls from './projectionControls/SalaryControls';
+import IndexationControls from './projectionControls/IndexationControls';
+import LumpSumControls from './projectionControls/LumpSumControls';
+import LifeTimeline, { type PayChange } from './projectionControls/LifeTimeline';
+import GoalSolverControls, { type GoalSettings } from './projectionControls/GoalSolverControls';
+import CostOfWaitingControls from './projectionControls/CostOfWaitingControls';
+import ScenarioControls, {
+  nextScenarioColour,
+  nextScenarioName,
+  type PinnedScenario,
+  type ScenarioOutcome,
+} from './projectionControls/ScenarioControls';
+import {
+  DEFAULT_PORTFOLIO_BLOCKS,
+  DEFAULT_PRESERVATION_AGE,
+  accessibleBalance,
+  ageReachingTarget,
+  annualDividendIncome,
+  applyValueBasis,
+  balanceForIncome,
+  blendPortfolio,
+  breakRegions,
+  contributionAtAge,
+  contributionSteps,
+  contributionsFromSalary,
+  convertAmount,
+  deflateFields,
+  deflationFactor,
+  delayedStart,
+  describeValueBasis,
+  driftedWeights,
+  findFrequency,
+  findHistoricalIndex,
+  findMilestones,
+  findOutcome,
+  fromMonthlyAmount,
+  maxSustainableSpend,
+  portfolioReturnPath,
+  probabilityOfReaching,
+  returnInForce,
+  returnWindow,
+  runBacktest,
+  runDrawdown,
+  runMonteCarlo,
+  runProjection,
+  runProjectionWithFeeDrag,
+  runSequenceRisk,
+  salarySchedules,
+  solveForTarget,
+  summariseCostOfWaiting,
+  summariseFees,
+  summariseStressTest,
+  toMonthlyAmount,
+  toTodaysDollars,
+  yearlyFlowsInBasis,
+  type CompoundingConvention,
+  type ContributionBreak,
+  type ContributionFrequency,
+  type ContributionIndexation,
+  type MarketShock,
+  type DrawdownSettings,
+  type PotFees,
+  type MonteCarloSettings,
+  type PercentileBand,
+  type PortfolioSettings,
+  type ProjectionEvent,
+  type ProjectionInput,
+  type ProjectionYear,
+  type ReturnScheduleEntry,
+  type SalarySettings,
+  type ValueBasis,
+} from '../projection';
 
 /** Minimum selectable "current age" for the calculator (fully flexible for any age). */
 const MIN_CURRENT_AGE = 1;
+/** Oldest selectable target age. */
+const MAX_TARGET_AGE = 100;
+/** Suggested labels for contribution breaks; any text can be typed. */
+const BREAK_LABEL_PRESETS = ['Parental leave', 'Part-time work', 'Sabbatical', 'Career break', 'Study'];
 
 // Simple icon components (can be replaced with actual SVGs later)
 const Icon = ({ emoji, className = '' }: { emoji: string; className?: string }) => (
   <span className={`text-4xl ${className}`}>{emoji}</span>
 );
 
-// Compounding calculator with optional age-based contribution schedule (super + personal) and separate break periods
-const calculateCompound = (
-  startAge: number,
-  monthlySuper: number,
-  monthlyPersonal: number,
-  years: number,
-  annualReturn: number,
-  initialInvestment: number = 0,
-  contributionSchedule?: Array<{ age: number; amountSuper: number; amountPersonal: number }>,
-  breakPeriodsSuper?: Array<{ fromAge: number; toAge: number }>,
-  breakPeriodsPersonal?: Array<{ fromAge: number; toAge: number }>
-): Array<{ age: number; total: number; contributed: number; growth: number }> => {
-  const data = [];
-  let balance = initialInvestment;
-  let totalContributed = initialInvestment;
-  const monthlyReturn = annualReturn / 100 / 12;
-  const totalMonths = years * 12;
-
-  const isInBreakSuper = (age: number): boolean => {
-    if (!breakPeriodsSuper?.length) return false;
-    return breakPeriodsSuper.some((b) => age >= b.fromAge && age <= b.toAge);
-  };
-  const isInBreakPersonal = (age: number): boolean => {
-    if (!breakPeriodsPersonal?.length) return false;
-    return breakPeriodsPersonal.some((b) => age >= b.fromAge && age <= b.toAge);
-  };
+/** Everything the Family calculator needs to run one projection. */
+type FamilyPlan = {
+  startAge: number;
+  years: number;
+  annualReturn: number;
+  initialInvestment: number;
+  /** Starting super balance; `initialInvestment` seeds the personal pot. */
+  initialSuper?: number;
+  /** Per-pot returns; each falls back to `annualReturn`. */
+  returnSuper?: number;
+  returnPersonal?: number;
+  /** ETF mix behind the personal pot; its blended (or drifting) return replaces `returnPersonal`. */
+  portfolio?: PortfolioSettings;
+  /** Return by age for both pots (a glide path); the personal pot's portfolio mix takes precedence. */
+  returnSchedule?: ReturnScheduleEntry[];
+  /** Super is locked until this age. */
+  preservationAge?: number;
+  monthlySuper: number;
+  monthlyPersonal: number;
+  contributionSchedule?: PayChange[];
+  breakPeriodsSuper?: ContributionBreak[];
+  breakPeriodsPersonal?: ContributionBreak[];
+  feesSuper?: PotFees;
+  feesPersonal?: PotFees;
+  /** Part of both pots' return paid as dividends; super always reinvests, personal can pay out as cash. */
+  dividendYield?: number;
+  payOutDividends?: boolean;
+  /** Yearly rise in both pots' contributions. */
+  indexation?: ContributionIndexation;
+  /** One-off deposits and withdrawals per pot. */
+  events?: ProjectionEvent[];
+  /** Income mode: replaces the monthly amounts and the age schedule with salary-derived contributions. */
+  salary?: SalarySettings;
+  /** Pay cycle; `monthlySuper`, `monthlyPersonal`, the schedule and the indexation cap are per payment. Defaults to monthly. */
+  contributionFrequency?: ContributionFrequency;
+  compounding?: CompoundingConvention;
+};
 
-  const getSuperAtAge = (age: number): number => {
-    if (isInBreakSuper(age)) return 0;
-    if (!contributionSchedule?.length) return monthlySuper;
-    const sorted = [...contributionSchedule].sort((a, b) => b.age - a.age);
-    for (const entry of sorted) {
-      if (age >= entry.age) return entry.amountSuper;
-    }
-    return monthlySuper;
+// Family plan as engine input: super and personal pots, each with its own slice of the age schedule, breaks and fees
+const buildFamilyProjection = (plan: FamilyPlan): ProjectionInput => {
+  const fromSalary = plan.salary ? salarySchedules(plan.salary, plan.startAge, plan.years) : null;
+  const perMonth = (amount: number) => toMonthlyAmount(amount, plan.contributionFrequency);
+  const indexation = plan.indexation && { ...plan.indexation, capMonthly: perMonth(plan.indexation.capMonthly) };
+  return {
+    startAge: plan.startAge,
+    years: plan.years,
+    annualReturn: plan.annualReturn,
+    compounding: plan.compounding,
+    contributionFrequency: plan.contributionFrequency,
+    pots: [
+      {
+        id: 'super',
+        label: 'Super',
+        initialBalance: plan.initialSuper ?? 0,
+        annualReturn: plan.returnSuper,
+        returnSchedule: plan.returnSchedule,
+        preservationAge: plan.preservationAge,
+        monthlyContribution: fromSalary?.super[0]?.amount ?? perMonth(plan.monthlySuper),
+        schedule:
+          fromSalary?.super ?? plan.contributionSchedule?.map((e) => ({ age: e.age, amount: perMonth(e.amountSuper) })),
+        breaks: plan.breakPeriodsSuper,
+        indexation,
+        dividendYield: plan.dividendYield,
+        ...plan.feesSuper,
+      },
+      {
+        id: 'personal',
+        label: 'Personal',
+        initialBalance: plan.initialInvestment,
+        annualReturn: plan.returnPersonal,
+        annualReturnPath: plan.portfolio && portfolioReturnPath(plan.portfolio, plan.years),
+        returnSchedule: plan.returnSchedule,
+        monthlyContribution: fromSalary?.personal[0]?.amount ?? perMonth(plan.monthlyPersonal),
+        schedule:
+          fromSalary?.personal ??
+          plan.contributionSchedule?.map((e) => ({ age: e.age, amount: perMonth(e.amountPersonal) })),
+        breaks: plan.breakPeriodsPersonal,
+        indexation,
+        dividendYield: plan.dividendYield,
+        payOutDividends: plan.payOutDividends,
+        ...plan.feesPersonal,
+      },
+    ],
+    events: plan.events,
   };
-  const getPersonalAtAge = (age: number): number => {
-    if (isInBreakPersonal(age)) return 0;
-    if (!contributionSchedule?.length) return monthlyPersonal;
-    const sorted = [...contributionSchedule].sort((a, b) => b.age - a.age);
-    for (const entry of sorted) {
-      if (age >= entry.age) return entry.amountPersonal;
-    }
-    return monthlyPersonal;
+};
+
+/**
+ * Same plan with a new combined amount per payment, keeping the super/personal split and the schedule's shape.
+ * With nothing contributed yet the whole amount goes to personal, and is added on top of every schedule entry's
+ * personal amount so the step-ups stay.
+ */
+const withMonthlyTotal = (plan: FamilyPlan, monthly: number): FamilyPlan => {
+  const current = plan.monthlySuper + plan.monthlyPersonal;
+  if (current <= 0) {
+    return {
+      ...plan,
+      monthlySuper: 0,
+      monthlyPersonal: monthly,
+      contributionSchedule: plan.contributionSchedule?.map((e) => ({
+        ...e,
+        amountPersonal: e.amountPersonal + monthly,
+      })),
+    };
+  }
+  const scale = monthly / current;
+  return {
+    ...plan,
+    monthlySuper: plan.monthlySuper * scale,
+    monthlyPersonal: plan.monthlyPersonal * scale,
+    contributionSchedule: plan.contributionSchedule?.map((e) => ({
+      age: e.age,
+      amountSuper: e.amountSuper * scale,
+      amountPersonal: e.amountPersonal * scale,
+    })),
   };
+};
 
-  for (let month = 0; month <= totalMonths; month++) {
-    const currentAge = startAge + month / 12;
-    const superAmount = getSuperAtAge(currentAge);
-    const personalAmount = getPersonalAtAge(currentAge);
-    const currentMonthlyAmount = superAmount + personalAmount;
+/** One-line summary of a plan for the scenario table, e.g. "$500 super + $300 personal /month at 8%, to 65". */
+const describeFamilyPlan = (plan: FamilyPlan): string => {
+  const amounts = plan.salary
+    ? `$${plan.salary.annualSalary.toLocaleString()} salary`
+    : `$${plan.monthlySuper.toLocaleString()} super + $${plan.monthlyPersonal.toLocaleString()} personal /${
+        findFrequency(plan.contributionFrequency).unit
+      }`;
+  const superRate = `${plan.returnSuper ?? plan.annualReturn}%`;
+  const personalRate = plan.portfolio
+    ? `${blendPortfolio(plan.portfolio.blocks).annualReturn.toFixed(1)}% ETF mix`
+    : `${plan.returnPersonal ?? plan.annualReturn}%`;
+  const rate = superRate === personalRate ? superRate : `${superRate} / ${personalRate}`;
+  const extras = [
+    plan.contributionSchedule?.length ? 'schedule' : '',
+    plan.breakPeriodsSuper?.length || plan.breakPeriodsPersonal?.length ? 'breaks' : '',
+    plan.events?.length ? 'lump sums' : '',
+  ].filter(Boolean);
+  return `${amounts} at ${rate}, to ${plan.startAge + plan.years}${extras.length ? ` (with ${extras.join(', ')})` : ''}`;
+};
 
-    if (month > 0) {
-      balance = balance * (1 + monthlyReturn) + currentMonthlyAmount;
-      totalContributed += currentMonthlyAmount;
-    }
-    const growth = balance - totalContributed;
-
-    if (month % 12 === 0) {
-      data.push({
-        age: currentAge,
-        total: Math.round(balance),
-        contributed: Math.round(totalContributed),
-        growth: Math.round(growth),
-      });
-    }
-  }
-  return data;
+/** Paid in less withdrawn: the stacked view's base layer, so the layers still add up to the balance. */
+const stillInvested = (row: ProjectionYear): number => Math.max(0, row.contributed - row.withdrawn);
+
+/** Yearly projection row plus any overlay series plotted alongside it. */
+type ChartRow = Partial<ProjectionYear & PercentileBand> & {
+  age: number;
+  historical?: number;
+  drawdown?: number;
+  accessible?: number;
+  delayed?: number;
+  /** Total after the stress-test crash. */
+  stressed?: number;
+  /** 10th to 90th percentile, drawn as one shaded band. */
+  percentileRange?: [number, number];
+  /** Percent of `total` that came from growth; only in the growth-share chart view. */
+  growthShare?: number;
+  /**
+   * Stacked view: what's still invested, the growth on top of it (floored at 0), and the band from `total` up to
+   * what's invested when the balance has fallen below it.
+   */
+  stackInvested?: number;
+  stackGrowth?: number;
+  lossBand?: [number, number];
+  /** Pinned scenario totals keyed by scenario id. */
+  scenarios?: Record<string, number | undefined>;
 };
 
 type FamilyWealthBlueprintProps = {
@@ -116,7 +307,11 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
   const [initialInvestment, setInitialInvestment] = useState(0);
   const [monthlySuper, setMonthlySuper] = useState(50);
   const [monthlyPersonal, setMonthlyPersonal] = useState(50);
-  const monthlyAmount = monthlySuper + monthlyPersonal;
+  // Pay cycle for the amounts above (they are per payment), and how the return compounds
+  const [contributionFrequency, setContributionFrequency] = useState<ContributionFrequency>('monthly');
+  const [compounding, setCompounding] = useState<CompoundingConvention>('monthly');
+  const frequency = findFrequency(contributionFrequency);
+  const monthlyAmount = toMonthlyAmount(monthlySuper + monthlyPersonal, contributionFrequency);
   const [annualReturn, setAnnualReturn] = useState(8.0);
   const [targetAge, setTargetAge] = useState(65);
   const [monthlySuperFocused, setMonthlySuperFocused] = useState(false);
@@ -125,44 +320,693 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
 
   // Advanced contribution schedule: super + personal per age (collapsible)
   const [showAdvancedContributions, setShowAdvancedContributions] = useState(false);
-  const [contributionSchedule, setContributionSchedule] = useState<Array<{ age: number; amountSuper: number; amountPersonal: number }>>([]);
+  const [contributionSchedule, setContributionSchedule] = useState<PayChange[]>([]);
   const [focusedContributionIndex, setFocusedContributionIndex] = useState<number | null>(null);
 
-  // Take a break: separate pause periods for super and personal
+  // Income mode: super guarantee and personal savings derived from a growing salary
+  const [useSalary, setUseSalary] = useState(false);
+  const [salarySettings, setSalarySettings] = useState<SalarySettings>({
+    annualSalary: 85000,
+    superGuaranteeRate: 12,
+    wageGrowth: 3,
+    personalSavingsRate: 10,
+  });
+
+  // Automatic yearly increase in contributions
+  const [showIndexation, setShowIndexation] = useState(false);
+  const [indexation, setIndexation] = useState<ContributionIndexation>({ ratePercent: 3, capMonthly: 0 });
+
+  // Goal solver: required monthly amount, return or age for a target balance/income
+  const [showGoalSolver, setShowGoalSolver] = useState(false);
+  const [goal, setGoal] = useState<GoalSettings>({
+    targetKind: 'balance',
+    target: 1000000,
+    withdrawalRate: 4,
+    solveFor: 'monthly',
+  });
+
+  // Cost of waiting: the same plan started N years later
+  const [delayYears, setDelayYears] = useState(5);
+  const [showDelayLine, setShowDelayLine] = useState(false);
+
+  // Pinned plans drawn next to the live one
+  const [scenarios, setScenarios] = useState<Array<PinnedScenario<FamilyPlan>>>([]);
+
+  // Dated one-off deposits and withdrawals
+  const [lumpSums, setLumpSums] = useState<ProjectionEvent[]>([]);
+
+  // Take a break: labelled pauses or cuts, separately for super and personal
   const [showTakeABreak, setShowTakeABreak] = useState(false);
-  const [breakPeriodsSuper, setBreakPeriodsSuper] = useState<Array<{ fromAge: number; toAge: number }>>([]);
-  const [breakPeriodsPersonal, setBreakPeriodsPersonal] = useState<Array<{ fromAge: number; toAge: number }>>([]);
+  const [breakPeriodsSuper, setBreakPeriodsSuper] = useState<ContributionBreak[]>([]);
+  const [breakPeriodsPersonal, setBreakPeriodsPersonal] = useState<ContributionBreak[]>([]);
   
+  // Super and personal as separate pots: own starting balance and (optionally) own return
+  const [initialSuper, setInitialSuper] = useState(0);
+  const [separatePotReturns, setSeparatePotReturns] = useState(false);
+  const [returnSuper, setReturnSuper] = useState(8.0);
+  const [returnPersonal, setReturnPersonal] = useState(8.0);
+  const [potChartView, setPotChartView] = useState<PotChartView>('combined');
+
+  // Super access: locked until preservation age
+  const [preservationAge, setPreservationAge] = useState(DEFAULT_PRESERVATION_AGE);
+  const [showAccessibleLine, setShowAccessibleLine] = useState(true);
+
+  // Investment fees per pot (% of balance + fixed $ per year)
+  const [feesSuper, setFeesSuper] = useState<PotFees>({ feePercent: 0, fixedFeeAnnual: 0 });
+  const [feesPersonal, setFeesPersonal] = useState<PotFees>({ feePercent: 0, fixedFeeAnnual: 0 });
+
+  // Dividend yield split out of the return; personal dividends can be taken as cash
+  const [showDividends, setShowDividends] = useState(false);
+  const [dividendSettings, setDividendSettings] = useState<DividendSettings>({ yieldPercent: 2, reinvest: true });
+
+  // ETF building blocks blended into the personal pot's return
+  const [showPortfolio, setShowPortfolio] = useState(false);
+  const [portfolio, setPortfolio] = useState<PortfolioSettings>({ blocks: DEFAULT_PORTFOLIO_BLOCKS, rebalance: true });
+
+  // Crash stress test: a one-off fall at a chosen age, drawn against the plan
+  const [showStressTest, setShowStressTest] = useState(false);
+  const [crash, setCrash] = useState<MarketShock>({ age: 50, fallPercent: 35, recoveryYears: 3 });
+
+  // Glide path: returns that step down with age
+  const [showGlidePath, setShowGlidePath] = useState(false);
+  const [glidePath, setGlidePath] = useState<GlidePathSettings>({
+    mode: 'lifecycle',
+    deRiskAge: 50,
+    finalReturn: 5.5,
+    stepYears: 10,
+    bands: [],
+  });
+
+  // Monte Carlo: seeded random returns with percentile bands
+  const [showMonteCarlo, setShowMonteCarlo] = useState(false);
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>({
+    meanReturn: 8,
+    volatility: 15,
+    paths: 2000,
+    seed: 20240601,
+  });
+  const [targetBalance, setTargetBalance] = useState(1000000);
+
+  // Historical replay over every start year in the bundled index data
+  const [showBacktest, setShowBacktest] = useState(false);
+  const [backtestIndexId, setBacktestIndexId] = useState('broad');
+  const [backtestOverlayYear, setBacktestOverlayYear] = useState<number | null>(null);
+
+  // Spending phase from targetAge to life expectancy
+  const [showDrawdown, setShowDrawdown] = useState(false);
+  const [drawdownPlan, setDrawdownPlan] = useState<DrawdownPlan>({
+    lifeExpectancy: 90,
+    annualSpendingToday: 60000,
+    indexSpending: true,
+    postRetirementReturn: 5,
+  });
+
+  // Sequence-of-returns demo: the drawdown spent through real market years, in order and reversed
+  const [showSequenceRisk, setShowSequenceRisk] = useState(false);
+  const [sequenceIndexId, setSequenceIndexId] = useState('broad');
+  const [sequenceStartYear, setSequenceStartYear] = useState(2000);
+
+  // Nominal vs today's dollars
+  const [valueBasis, setValueBasis] = useState<ValueBasis>('nominal');
+  const [inflationRate, setInflationRate] = useState(2.5);
+
+  // How the main chart draws the balance (lines, stacked, log scale or % from growth)
+  const [chartMode, setChartMode] = useState<ChartMode>('lines');
+
+  // Every year as an accessible table under the chart
+  const [showYearTable, setShowYearTable] = useState(false);
+
   // Educational section (collapsible)
   const [showEducationalSection, setShowEducationalSection] = useState(false);
   
   // Why This Matters section (collapsible)
   const [showWhyThisMatters, setShowWhyThisMatters] = useState(false);
   
-  // Reset contribution schedule when opening the advanced section
-  const handleToggleAdvancedContributions = () => {
-    if (!showAdvancedContributions) {
-      // Opening - reset to empty
-      setContributionSchedule([]);
-      setFocusedContributionIndex(null);
+  const portfolioBlend = useMemo(() => blendPortfolio(portfolio.blocks), [portfolio]);
+  const returnSchedule = useMemo(
+    () => (showGlidePath ? glidePathSchedule(glidePath, annualReturn) : undefined),
+    [showGlidePath, glidePath, annualReturn]
+  );
+  const portfolioDrift = useMemo(
+    () => driftedWeights(portfolio.blocks, Math.max(0, targetAge - startAge)),
+    [portfolio, targetAge, startAge]
+  );
+  const potSettings = useMemo<Record<'super' | 'personal', PotSettings>>(
+    () => ({
+      super: { initialBalance: initialSuper, annualReturn: separatePotReturns ? returnSuper : annualReturn },
+      personal: {
+        initialBalance: initialInvestment,
+        annualReturn: showPortfolio
+          ? Number(portfolioBlend.annualReturn.toFixed(2))
+          : separatePotReturns
+            ? returnPersonal
+            : annualReturn,
+      },
+    }),
+    [
+      initialSuper,
+      initialInvestment,
+      separatePotReturns,
+      returnSuper,
+      returnPersonal,
+      annualReturn,
+      showPortfolio,
+      portfolioBlend,
+    ]
+  );
+  // Yield can't exceed either pot's return, or capital growth would turn negative
+  const maxDividendYield = Math.max(0, Math.min(potSettings.super.annualReturn, potSettings.personal.annualReturn));
+  // A pot's return is only taken back while its input is editable; otherwise it shows the main return or the
+  // portfolio blend, and writing that back would overwrite the user's own pot return
+  const handlePotSettingsChange = (id: string, settings: PotSettings) => {
+    if (id === 'super') {
+      setInitialSuper(settings.initialBalance);
+      if (separatePotReturns) setReturnSuper(settings.annualReturn);
+    } else {
+      setInitialInvestment(settings.initialBalance);
+      if (separatePotReturns && !showPortfolio) setReturnPersonal(settings.annualReturn);
     }
+  };
+  // Turning separate returns on starts both pots from the main return slider
+  const handleSeparatePotReturnsChange = (separate: boolean) => {
+    if (separate) {
+      setReturnSuper(annualReturn);
+      setReturnPersonal(annualReturn);
+    }
+    setSeparatePotReturns(separate);
+  };
+
+  // Closing the advanced section switches the schedule off; reopening brings the same entries back
+  const handleToggleAdvancedContributions = () => {
+    setFocusedContributionIndex(null);
     setShowAdvancedContributions(!showAdvancedContributions);
   };
 
-  // Calculate chart data
-  const chartData = useMemo(() => {
+  // Timeline edits switch the matching section on. A section that is off isn't in the plan (and isn't on the
+  // timeline), so its hidden entries are replaced rather than revived.
+  const handleTimelinePayChanges = (changes: PayChange[]) => {
+    setContributionSchedule(changes);
+    setShowAdvancedContributions(true);
+  };
+  const handleTimelineBreaks = (pot: 'super' | 'personal', breaks: ContributionBreak[]) => {
+    setBreakPeriodsSuper(pot === 'super' ? breaks : showTakeABreak ? breakPeriodsSuper : []);
+    setBreakPeriodsPersonal(pot === 'personal' ? breaks : showTakeABreak ? breakPeriodsPersonal : []);
+    setShowTakeABreak(true);
+  };
+
+  // Engine input for the current settings, then chart data (nominal) expressed in the chosen value basis
+  const familyPlan = useMemo<FamilyPlan>(() => {
     const years = Math.max(1, targetAge - startAge);
     const schedule = showAdvancedContributions && contributionSchedule.length > 0
       ? contributionSchedule
       : undefined;
     const breaksSuper = showTakeABreak && breakPeriodsSuper.length > 0 ? breakPeriodsSuper : undefined;
     const breaksPersonal = showTakeABreak && breakPeriodsPersonal.length > 0 ? breakPeriodsPersonal : undefined;
-    return calculateCompound(startAge, monthlySuper, monthlyPersonal, years, annualReturn, initialInvestment, schedule, breaksSuper, breaksPersonal);
-  }, [startAge, monthlySuper, monthlyPersonal, annualReturn, targetAge, initialInvestment, showAdvancedContributions, contributionSchedule, showTakeABreak, breakPeriodsSuper, breakPeriodsPersonal]);
+    return {
+      startAge,
+      years,
+      annualReturn,
+      initialInvestment,
+      initialSuper,
+      returnSuper: separatePotReturns ? returnSuper : undefined,
+      returnPersonal: separatePotReturns ? returnPersonal : undefined,
+      portfolio: showPortfolio ? portfolio : undefined,
+      returnSchedule,
+      preservationAge,
+      monthlySuper,
+      monthlyPersonal,
+      contributionSchedule: schedule,
+      breakPeriodsSuper: breaksSuper,
+      breakPeriodsPersonal: breaksPersonal,
+      feesSuper,
+      feesPersonal,
+      dividendYield: showDividends ? Math.min(dividendSettings.yieldPercent, maxDividendYield) : undefined,
+      payOutDividends: showDividends && !dividendSettings.reinvest,
+      // Salary-derived contributions already rise with wages
+      indexation: showIndexation && !useSalary ? indexation : undefined,
+      salary: useSalary ? salarySettings : undefined,
+      events: lumpSums,
+      contributionFrequency,
+      compounding,
+    };
+  }, [
+    startAge,
+    monthlySuper,
+    monthlyPersonal,
+    annualReturn,
+    targetAge,
+    initialInvestment,
+    initialSuper,
+    separatePotReturns,
+    returnSuper,
+    returnPersonal,
+    showPortfolio,
+    portfolio,
+    returnSchedule,
+    preservationAge,
+    showAdvancedContributions,
+    contributionSchedule,
+    showTakeABreak,
+    breakPeriodsSuper,
+    breakPeriodsPersonal,
+    feesSuper,
+    feesPersonal,
+    showDividends,
+    dividendSettings,
+    maxDividendYield,
+    showIndexation,
+    indexation,
+    useSalary,
+    salarySettings,
+    lumpSums,
+    contributionFrequency,
+    compounding,
+  ]);
+  const projectionInput = useMemo(() => buildFamilyProjection(familyPlan), [familyPlan]);
+  // "Investing (Like This Chart!)": today's contributions from $0 at the plan's return, read at 20 and 30 years
+  const habitTotals = useMemo(() => {
+    const yearly = runProjection(
+      buildFamilyProjection({
+        startAge: 0,
+        years: 30,
+        annualReturn: familyPlan.annualReturn,
+        initialInvestment: 0,
+        monthlySuper: familyPlan.monthlySuper,
+        monthlyPersonal: familyPlan.monthlyPersonal,
+        contributionFrequency: familyPlan.contributionFrequency,
+        compounding: familyPlan.compounding,
+      }),
+      { monthly: false }
+    ).yearly;
+    return {
+      after20Years: yearly.find((r) => r.age === 20)?.total ?? 0,
+      after30Years: yearly[yearly.length - 1]?.total ?? 0,
+    };
+  }, [familyPlan]);
+  // Amount per payment in year one vs the final year, ignoring breaks
+  const indexationExamples = useMemo(
+    () =>
+      projectionInput.pots.map((pot) => ({
+        label: pot.label,
+        from: fromMonthlyAmount(contributionAtAge({ ...pot, breaks: undefined }, startAge), contributionFrequency),
+        to: fromMonthlyAmount(
+          contributionAtAge({ ...pot, breaks: undefined }, targetAge - 1 / 12, Math.max(0, targetAge - startAge - 1)),
+          contributionFrequency
+        ),
+      })),
+    [projectionInput, startAge, targetAge, contributionFrequency]
+  );
+  const projection = useMemo(() => runProjectionWithFeeDrag(projectionInput), [projectionInput]);
+  // Return in force at each age for the chart tooltip (per pot when they differ)
+  const describeReturnAt = useCallback(
+    (age: number) => {
+      const rates = projectionInput.pots.map((pot) => Number(returnInForce(projectionInput, pot, age).toFixed(2)));
+      return rates.every((r) => r === rates[0])
+        ? `${rates[0]}% return`
+        : projectionInput.pots.map((pot, i) => `${pot.label} ${rates[i]}%`).join(' · ');
+    },
+    [projectionInput]
+  );
+  const nominalChartData = projection.yearly;
+  const chartData = useMemo(
+    () => applyValueBasis(nominalChartData, valueBasis, startAge, inflationRate),
+    [nominalChartData, valueBasis, startAge, inflationRate]
+  );
 
   const finalAmount = chartData[chartData.length - 1]?.total || 0;
+  const finalPots = chartData[chartData.length - 1]?.pots;
+  // Amounts per payment actually used in year one (salary-derived in income mode)
+  const firstYearContributions = useMemo(() => {
+    if (!useSalary) return { super: monthlySuper, personal: monthlyPersonal };
+    const fromSalary = contributionsFromSalary(salarySettings.annualSalary, salarySettings);
+    return {
+      super: Math.round(fromMonthlyAmount(fromSalary.super, contributionFrequency)),
+      personal: Math.round(fromMonthlyAmount(fromSalary.personal, contributionFrequency)),
+    };
+  }, [useSalary, salarySettings, monthlySuper, monthlyPersonal, contributionFrequency]);
+  const accessibleAtTarget = chartData.length > 0 ? accessibleBalance(chartData[chartData.length - 1], projectionInput.pots) : 0;
   const totalContributed = chartData[chartData.length - 1]?.contributed || 0;
   const totalGrowth = chartData[chartData.length - 1]?.growth || 0;
+  const totalWithdrawn = chartData[chartData.length - 1]?.withdrawn || 0;
+  const feeSummary = useMemo(() => summariseFees(chartData), [chartData]);
+  const totalDividends = chartData[chartData.length - 1]?.dividends || 0;
+  const passiveIncome = chartData.length > 0 ? annualDividendIncome(chartData[chartData.length - 1], projectionInput.pots) : 0;
+
+  // Thousands of full projections: run them on deferred inputs so typing stays responsive, then catch up
+  const deferredMonteCarloInput = useDeferredValue(showMonteCarlo ? projectionInput : null);
+  const deferredMonteCarloSettings = useDeferredValue(monteCarloSettings);
+  const monteCarlo = useMemo(
+    () => (deferredMonteCarloInput ? runMonteCarlo(deferredMonteCarloInput, deferredMonteCarloSettings) : null),
+    [deferredMonteCarloInput, deferredMonteCarloSettings]
+  );
+  const monteCarloPending =
+    showMonteCarlo &&
+    (deferredMonteCarloInput !== projectionInput || deferredMonteCarloSettings !== monteCarloSettings);
+  const monteCarloBands = useMemo(() => {
+    if (!monteCarlo) return null;
+    return valueBasis === 'real'
+      ? deflateFields(monteCarlo.bands, ['p10', 'p50', 'p90'], startAge, inflationRate)
+      : monteCarlo.bands;
+  }, [monteCarlo, valueBasis, startAge, inflationRate]);
+  // Target is entered in the displayed basis; compare against nominal path finals
+  const targetProbability = useMemo(() => {
+    if (!monteCarlo) return 0;
+    const nominalTarget =
+      valueBasis === 'real' ? targetBalance * deflationFactor(targetAge, startAge, inflationRate) : targetBalance;
+    return probabilityOfReaching(monteCarlo.finals, nominalTarget);
+  }, [monteCarlo, targetBalance, valueBasis, targetAge, startAge, inflationRate]);
+
+  const backtest = useMemo(
+    () => (showBacktest ? runBacktest(projectionInput, findHistoricalIndex(backtestIndexId)) : null),
+    [showBacktest, projectionInput, backtestIndexId]
+  );
+  const backtestOverlay = backtest ? findOutcome(backtest, backtestOverlayYear) : null;
+
+  // Same plan started later, in the displayed basis (deflated from today, not from the later start)
+  const maxDelayYears = Math.max(1, targetAge - startAge - 1);
+  const effectiveDelayYears = Math.min(delayYears, maxDelayYears);
+  const delayedRows = useMemo(
+    () =>
+      applyValueBasis(
+        runProjection(delayedStart(projectionInput, effectiveDelayYears), { monthly: false }).yearly,
+        valueBasis,
+        startAge,
+        inflationRate
+      ),
+    [projectionInput, effectiveDelayYears, valueBasis, startAge, inflationRate]
+  );
+  // Same plan with the crash applied, in the displayed basis
+  const crashAge = Math.max(startAge + 1, Math.min(targetAge, crash.age));
+  const stressedRows = useMemo(
+    () =>
+      showStressTest
+        ? applyValueBasis(
+            runProjection({ ...projectionInput, marketShocks: [{ ...crash, age: crashAge }] }, { monthly: false }).yearly,
+            valueBasis,
+            startAge,
+            inflationRate
+          )
+        : null,
+    [showStressTest, projectionInput, crash, crashAge, valueBasis, startAge, inflationRate]
+  );
+  const stressSummary = useMemo(
+    () => (stressedRows ? summariseStressTest(chartData, stressedRows, crashAge) : null),
+    [chartData, stressedRows, crashAge]
+  );
+  const costOfWaiting = useMemo(
+    () => summariseCostOfWaiting(chartData, delayedRows, effectiveDelayYears),
+    [chartData, delayedRows, effectiveDelayYears]
+  );
+  const toDisplayBasis = useCallback(
+    (amount: number, age: number) =>
+      valueBasis === 'real' ? Math.round(toTodaysDollars(amount, age, startAge, inflationRate)) : amount,
+    [valueBasis, startAge, inflationRate]
+  );
+  // Shaded chart regions for contribution breaks; a break entered on both pots is shaded once
+  const breakShading = useMemo(
+    () =>
+      showTakeABreak
+        ? breakRegions([
+            { potLabel: 'super', breaks: breakPeriodsSuper },
+            { potLabel: 'personal', breaks: breakPeriodsPersonal },
+          ])
+        : [],
+    [showTakeABreak, breakPeriodsSuper, breakPeriodsPersonal]
+  );
+  // Each year's opening balance, contributions, growth and closing balance, for the table view
+  const yearFlows = useMemo(
+    () => yearlyFlowsInBasis(nominalChartData, valueBasis, startAge, inflationRate),
+    [nominalChartData, valueBasis, startAge, inflationRate]
+  );
+
+  // Milestone flags and contribution-change markers; drawn in the chart SVG so the PDF snapshot keeps them
+  const milestones = useMemo(() => findMilestones(chartData), [chartData]);
+  const scheduleMarkers = useMemo(
+    () =>
+      showAdvancedContributions && !useSalary
+        ? contributionSteps(
+            monthlySuper + monthlyPersonal,
+            contributionSchedule.map((e) => ({ age: e.age, amount: e.amountSuper + e.amountPersonal }))
+          ).filter((step) => step.age > startAge && step.age < targetAge)
+        : [],
+    [showAdvancedContributions, useSalary, monthlySuper, monthlyPersonal, contributionSchedule, startAge, targetAge]
+  );
+  // Chart dots for each lump sum, at the balance just after it lands
+  const lumpSumMarkers = useMemo(
+    () =>
+      projection.events.map((e) => {
+        const month = Math.max(0, Math.round((e.age - startAge) * 12));
+        return { ...e, total: toDisplayBasis(projection.monthly[month]?.total ?? 0, e.age) };
+      }),
+    [projection, startAge, toDisplayBasis]
+  );
+
+  // Drawdown runs on the nominal balance at targetAge; spending is entered in today's dollars. Retiring before
+  // preservation age, only the personal pot can be spent until super unlocks.
+  const nominalFinal = nominalChartData[nominalChartData.length - 1]?.total ?? 0;
+  const nominalFinalSuper = nominalChartData[nominalChartData.length - 1]?.pots.super?.balance ?? 0;
+  const drawdownSettings = useMemo<DrawdownSettings>(
+    () => ({
+      lifeExpectancy: Math.max(targetAge + 1, drawdownPlan.lifeExpectancy),
+      annualSpending: drawdownPlan.annualSpendingToday * deflationFactor(targetAge, startAge, inflationRate),
+      spendingIndexation: drawdownPlan.indexSpending ? inflationRate : 0,
+      postRetirementReturn: drawdownPlan.postRetirementReturn,
+      compounding,
+      lockedBalance: targetAge < preservationAge ? nominalFinalSuper : 0,
+      lockedUntilAge: preservationAge,
+    }),
+    [drawdownPlan, targetAge, startAge, inflationRate, compounding, nominalFinalSuper, preservationAge]
+  );
+  const drawdown = useMemo(
+    () => (showDrawdown ? runDrawdown(nominalFinal, targetAge, drawdownSettings) : null),
+    [showDrawdown, nominalFinal, targetAge, drawdownSettings]
+  );
+  const sustainableSpendToday = useMemo(
+    () =>
+      showDrawdown
+        ? Math.floor(
+            maxSustainableSpend(nominalFinal, targetAge, drawdownSettings) /
+              deflationFactor(targetAge, startAge, inflationRate)
+          )
+        : 0,
+    [showDrawdown, nominalFinal, targetAge, drawdownSettings, startAge, inflationRate]
+  );
+  const drawdownRows = useMemo(() => {
+    if (!drawdown) return null;
+    return valueBasis === 'real'
+      ? deflateFields(drawdown.yearly, ['opening', 'withdrawn', 'growth', 'closing'], startAge, inflationRate)
+      : drawdown.yearly;
+  }, [drawdown, valueBasis, startAge, inflationRate]);
+  const sequenceRisk = useMemo(
+    () =>
+      showSequenceRisk
+        ? runSequenceRisk(
+            nominalFinal,
+            targetAge,
+            drawdownSettings,
+            returnWindow(
+              findHistoricalIndex(sequenceIndexId),
+              sequenceStartYear,
+              drawdownSettings.lifeExpectancy - targetAge
+            )
+          )
+        : null,
+    [showSequenceRisk, nominalFinal, targetAge, drawdownSettings, sequenceIndexId, sequenceStartYear]
+  );
+  // Both runs start from the balance at targetAge
+  const sequenceRows = useMemo<SequenceRiskRow[]>(() => {
+    if (!sequenceRisk) return [];
+    const start = toDisplayBasis(nominalFinal, targetAge);
+    return [
+      { age: targetAge, forward: start, reversed: start },
+      ...sequenceRisk.forward.yearly.map((r, i) => ({
+        age: r.age,
+        forward: toDisplayBasis(r.closing, r.age),
+        reversed: toDisplayBasis(sequenceRisk.reversed.yearly[i]?.closing ?? 0, r.age),
+      })),
+    ];
+  }, [sequenceRisk, nominalFinal, targetAge, toDisplayBasis]);
+  const sequenceUntouchedFinal = sequenceRisk
+    ? toDisplayBasis(sequenceRisk.untouchedFinal, drawdownSettings.lifeExpectancy)
+    : 0;
+
+  // Each pinned plan runs in full; all are deflated from the current plan's start age so they share one "today"
+  const scenarioRuns = useMemo(
+    () =>
+      scenarios.map((scenario) => ({
+        ...scenario,
+        rows: applyValueBasis(
+          runProjection(buildFamilyProjection(scenario.plan), { monthly: false }).yearly,
+          valueBasis,
+          startAge,
+          inflationRate
+        ),
+      })),
+    [scenarios, valueBasis, startAge, inflationRate]
+  );
+  const currentOutcome = useMemo<ScenarioOutcome>(
+    () => ({
+      id: 'current',
+      name: 'Current plan',
+      colour: '#2563eb',
+      description: describeFamilyPlan(familyPlan),
+      endAge: targetAge,
+      total: finalAmount,
+      contributed: totalContributed,
+      growth: totalGrowth,
+    }),
+    [familyPlan, targetAge, finalAmount, totalContributed, totalGrowth]
+  );
+  const scenarioOutcomes = useMemo<ScenarioOutcome[]>(
+    () =>
+      scenarioRuns.map(({ id, name, colour, description, rows }) => {
+        const last = rows[rows.length - 1];
+        return {
+          id,
+          name,
+          colour,
+          description,
+          endAge: last.age,
+          total: last.total,
+          contributed: last.contributed,
+          growth: last.growth,
+        };
+      }),
+    [scenarioRuns]
+  );
+  const pinScenario = () =>
+    setScenarios((prev) => [
+      ...prev,
+      {
+        id: `scenario-${Date.now()}`,
+        name: nextScenarioName(prev.map((s) => s.name)),
+        colour: nextScenarioColour(prev.map((s) => s.colour)),
+        description: describeFamilyPlan(familyPlan),
+        plan: familyPlan,
+      },
+    ]);
+
+  // Chart rows with percentile bands and the other overlays merged in by age, then the drawdown segment
+  const plotData = useMemo<ChartRow[]>(() => {
+    // Matched by age: the deferred simulation can briefly cover a different span than the chart
+    const bandAt = (age: number) => {
+      const band = monteCarloBands?.find((b) => b.age === age);
+      if (!band) return undefined;
+      return { p10: band.p10, p50: band.p50, p90: band.p90, percentileRange: [band.p10, band.p90] as [number, number] };
+    };
+    const rows: ChartRow[] = chartData.map((row, i) => ({
+      ...row,
+      accessible: showAccessibleLine ? accessibleBalance(row, projectionInput.pots) : undefined,
+      ...bandAt(row.age),
+      historical: backtestOverlay ? toDisplayBasis(backtestOverlay.yearly[i]?.total ?? 0, row.age) : undefined,
+      delayed: showDelayLine ? (i < effectiveDelayYears ? 0 : delayedRows[i - effectiveDelayYears]?.total) : undefined,
+      stressed: stressedRows?.[i]?.total,
+      growthShare:
+        chartMode === 'growthShare' && row.total > 0
+          ? Math.round(Math.max(0, Math.min(100, (row.growth / row.total) * 100)) * 10) / 10
+          : undefined,
+      stackInvested: chartMode === 'stacked' ? stillInvested(row) : undefined,
+      stackGrowth: chartMode === 'stacked' ? Math.max(0, row.total - stillInvested(row)) : undefined,
+      lossBand:
+        chartMode === 'stacked' && row.total < stillInvested(row) ? [row.total, stillInvested(row)] : undefined,
+      scenarios: scenarioRuns.length
+        ? Object.fromEntries(scenarioRuns.map((sc) => [sc.id, sc.rows.find((r) => r.age === row.age)?.total]))
+        : undefined,
+    }));
+    if (!drawdownRows || rows.length === 0) return rows;
+    const last = rows[rows.length - 1];
+    rows[rows.length - 1] = { ...last, drawdown: last.total };
+    return [...rows, ...drawdownRows.map((r) => ({ age: r.age, drawdown: r.closing }))];
+  }, [
+    chartData,
+    showAccessibleLine,
+    projectionInput,
+    monteCarloBands,
+    backtestOverlay,
+    toDisplayBasis,
+    showDelayLine,
+    effectiveDelayYears,
+    delayedRows,
+    stressedRows,
+    chartMode,
+    scenarioRuns,
+    drawdownRows,
+  ]);
+
+  // Goal is entered in the displayed basis; the monthly and return solves compare nominal finals
+  const goalBalance = Math.round(
+    goal.targetKind === 'income' ? balanceForIncome(goal.target, goal.withdrawalRate) : goal.target
+  );
+  const goalResult = useMemo(() => {
+    if (!showGoalSolver) return null;
+    const nominalGoal = valueBasis === 'real' ? goalBalance * deflationFactor(targetAge, startAge, inflationRate) : goalBalance;
+    if (goal.solveFor === 'monthly') {
+      if (familyPlan.salary) return null;
+      const monthly = solveForTarget((m) => buildFamilyProjection(withMonthlyTotal(familyPlan, m)), nominalGoal, 0, 1000000, 0.5);
+      return monthly === null ? null : Math.ceil(monthly);
+    }
+    if (goal.solveFor === 'return') {
+      const rate = solveForTarget(
+        (r) =>
+          buildFamilyProjection({
+            ...familyPlan,
+            annualReturn: r,
+            returnSuper: undefined,
+            returnPersonal: undefined,
+            portfolio: undefined,
+            returnSchedule: undefined,
+          }),
+        nominalGoal,
+        0,
+        30
+      );
+      return rate === null ? null : Math.ceil(rate * 10) / 10;
+    }
+    const extended = runProjection(buildFamilyProjection({ ...familyPlan, years: MAX_TARGET_AGE - startAge }), { monthly: false });
+    const age = ageReachingTarget(applyValueBasis(extended.yearly, valueBasis, startAge, inflationRate), goalBalance);
+    return age === null ? null : Math.max(startAge + 1, Math.round(age));
+  }, [showGoalSolver, goal.solveFor, goalBalance, familyPlan, valueBasis, targetAge, startAge, inflationRate]);
+
+  const applyGoalResult = () => {
+    if (goalResult === null) return;
+    if (goal.solveFor === 'monthly') {
+      const solved = withMonthlyTotal(familyPlan, goalResult);
+      setMonthlySuper(Math.ceil(solved.monthlySuper));
+      setMonthlyPersonal(Math.ceil(solved.monthlyPersonal));
+      if (showAdvancedContributions) {
+        setContributionSchedule(
+          solved.contributionSchedule?.map((e) => ({
+            age: e.age,
+            amountSuper: Math.ceil(e.amountSuper),
+            amountPersonal: Math.ceil(e.amountPersonal),
+          })) ?? []
+        );
+      }
+    } else if (goal.solveFor === 'return') {
+      setAnnualReturn(goalResult);
+      setSeparatePotReturns(false);
+      setShowPortfolio(false);
+      setShowGlidePath(false);
+    } else {
+      setTargetAge(goalResult);
+    }
+  };
+
+  // Switching pay cycle keeps each amount's yearly total
+  const handleFrequencyChange = (next: ContributionFrequency) => {
+    const convert = (amount: number) => convertAmount(amount, contributionFrequency, next);
+    setMonthlySuper(convert(monthlySuper));
+    setMonthlyPersonal(convert(monthlyPersonal));
+    setContributionSchedule((prev) =>
+      prev.map((e) => ({ age: e.age, amountSuper: convert(e.amountSuper), amountPersonal: convert(e.amountPersonal) }))
+    );
+    setIndexation((prev) => ({ ...prev, capMonthly: convert(prev.capMonthly) }));
+    setContributionFrequency(next);
+  };
+
+  // Stacked pots can't share the chart with the invested/growth stack, and stacking has no zero to sit on in log view
+  const potView: PotChartView =
+    chartMode === 'stacked' ? 'combined' : chartMode === 'log' && potChartView === 'stacked' ? 'pots' : potChartView;
 
   const runPdfExport = useCallback(async () => {
     try {
@@ -173,14 +1017,106 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
         startAge,
         targetAge,
         initialInvestment,
-        monthlySuper,
-        monthlyPersonal,
+        pots: [
+          { label: 'Super', ...potSettings.super, final: finalPots?.super ?? null },
+          { label: 'Personal', ...potSettings.personal, final: finalPots?.personal ?? null },
+        ],
+        showPotsOnChart: potView !== 'combined',
+        preservationAge,
+        accessibleAtTarget,
+        showAccessibleLine,
+        salary: useSalary ? salarySettings : null,
+        indexation: showIndexation && !useSalary ? indexation : null,
+        monthlySuper: firstYearContributions.super,
+        monthlyPersonal: firstYearContributions.personal,
+        contributionFrequency,
         annualReturn,
+        compounding,
         finalAmount,
         totalContributed,
         totalGrowth,
+        totalWithdrawn,
+        feesSuper,
+        feesPersonal,
+        feeSummary,
+        // The yield the projection used: capped at the lower pot return
+        dividends: showDividends
+          ? {
+              ...dividendSettings,
+              yieldPercent: Math.min(dividendSettings.yieldPercent, maxDividendYield),
+              totalDividends,
+              passiveIncome,
+            }
+          : null,
+        returnSchedule: returnSchedule ?? [],
+        portfolio: showPortfolio
+          ? {
+              blocks: portfolio.blocks.map((b, i) => ({ ...b, colour: blockColour(b, i) })),
+              rebalance: portfolio.rebalance,
+              blend: portfolioBlend,
+              driftedAtTarget: portfolioDrift,
+            }
+          : null,
         chartData,
-        showAdvancedContributions,
+        monteCarlo: monteCarloBands
+          ? { settings: monteCarloSettings, bands: monteCarloBands, targetBalance, probability: targetProbability }
+          : null,
+        backtest:
+          backtest && backtest.worst && backtest.median && backtest.best
+            ? {
+                indexLabel: backtest.index.label,
+                startYears: backtest.outcomes.length,
+                worst: { startYear: backtest.worst.startYear, final: toDisplayBasis(backtest.worst.final.total, targetAge) },
+                median: { startYear: backtest.median.startYear, final: toDisplayBasis(backtest.median.final.total, targetAge) },
+                best: { startYear: backtest.best.startYear, final: toDisplayBasis(backtest.best.final.total, targetAge) },
+                overlayYear: backtestOverlay?.startYear ?? null,
+              }
+            : null,
+        drawdown:
+          drawdown && drawdownRows
+            ? {
+                lifeExpectancy: drawdownSettings.lifeExpectancy,
+                annualSpendingToday: drawdownPlan.annualSpendingToday,
+                indexSpending: drawdownPlan.indexSpending,
+                postRetirementReturn: drawdownPlan.postRetirementReturn,
+                depletionAge: drawdown.depletionAge,
+                accessGap: toDisplayBasis(drawdown.accessGap, preservationAge),
+                accessGapAge: drawdown.accessGapAge,
+                sustainableSpendToday,
+                rows: drawdownRows,
+              }
+            : null,
+        sequenceRisk: sequenceRisk
+          ? {
+              indexLabel: findHistoricalIndex(sequenceIndexId).label,
+              startYear: sequenceStartYear,
+              averageReturn: sequenceRisk.averageReturn,
+              compoundReturn: sequenceRisk.compoundReturn,
+              annualSpendingToday: drawdownPlan.annualSpendingToday,
+              lifeExpectancy: drawdownSettings.lifeExpectancy,
+              forwardDepletionAge: sequenceRisk.forward.depletionAge,
+              reversedDepletionAge: sequenceRisk.reversed.depletionAge,
+              untouchedFinal: sequenceUntouchedFinal,
+              rows: sequenceRows,
+            }
+          : null,
+        lumpSums: projection.events.map((e) => ({
+          age: e.age,
+          potLabel: e.potId === 'super' ? 'Super' : 'Personal',
+          label: e.label ?? '',
+          amount: e.amount,
+          shortfall: e.shortfall,
+        })),
+        goal: showGoalSolver ? { ...goal, requiredBalance: goalBalance, result: goalResult } : null,
+        costOfWaiting,
+        showDelayLine,
+        stressTest: stressSummary ? { ...crash, ...stressSummary } : null,
+        milestones,
+        scenarios: scenarioOutcomes.length > 0 ? [currentOutcome, ...scenarioOutcomes] : [],
+        valueBasis,
+        inflationRate,
+        chartMode,
+        showAdvancedContributions: showAdvancedContributions && !useSalary,
         contributionSchedule,
         showTakeABreak,
         breakPeriodsSuper,
@@ -193,16 +1129,73 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
       window.alert('Could not create the PDF. Please try again.');
     }
   }, [
+    showGoalSolver,
+    goal,
+    goalBalance,
+    goalResult,
+    costOfWaiting,
+    showDelayLine,
+    crash,
+    stressSummary,
+    milestones,
+    currentOutcome,
+    scenarioOutcomes,
+    projection,
     startAge,
     targetAge,
     initialInvestment,
-    monthlySuper,
-    monthlyPersonal,
+    potSettings,
+    finalPots,
+    potView,
+    preservationAge,
+    accessibleAtTarget,
+    showAccessibleLine,
+    useSalary,
+    salarySettings,
+    showIndexation,
+    indexation,
+    firstYearContributions,
     annualReturn,
+    contributionFrequency,
+    compounding,
     finalAmount,
     totalContributed,
     totalGrowth,
+    totalWithdrawn,
+    feesSuper,
+    feesPersonal,
+    feeSummary,
+    showDividends,
+    dividendSettings,
+    maxDividendYield,
+    totalDividends,
+    passiveIncome,
+    returnSchedule,
+    showPortfolio,
+    portfolio,
+    portfolioBlend,
+    portfolioDrift,
     chartData,
+    monteCarloBands,
+    monteCarloSettings,
+    targetBalance,
+    targetProbability,
+    backtest,
+    backtestOverlay,
+    toDisplayBasis,
+    drawdown,
+    drawdownRows,
+    drawdownSettings,
+    drawdownPlan,
+    sustainableSpendToday,
+    sequenceRisk,
+    sequenceIndexId,
+    sequenceStartYear,
+    sequenceRows,
+    sequenceUntouchedFinal,
+    valueBasis,
+    inflationRate,
+    chartMode,
     showAdvancedContributions,
     contributionSchedule,
     showTakeABreak,
@@ -217,112 +1210,30 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
     };
   }, [pdfExportRef, runPdfExport]);
 
-  // Calculate max value for Y-axis - find true max across all series, then snap to first nice step above
-  const maxValue = useMemo(() => {
-    if (chartData.length === 0) return 100000; // Default if no data
-    
-    // Find the true maximum across all series (Total Value and Amount Invested)
-    const max = Math.max(...chartData.map(d => Math.max(d.total, d.contributed)));
-    
-    if (max === 0) return 100000;
-    
-    // Choose a "nice" step size based on magnitude
-    let step: number;
-    
-    if (max >= 1000000) {
-      // For millions, use 100k, 200k, 500k, or 1M steps
-      if (max < 2000000) step = 200000;      // 0.2M steps
-      else if (max < 5000000) step = 500000;  // 0.5M steps
-      else if (max < 10000000) step = 1000000; // 1M steps
-      else if (max < 20000000) step = 2000000; // 2M steps
-      else if (max < 50000000) step = 5000000; // 5M steps
-      else step = 10000000;                     // 10M steps
-    } else if (max >= 100000) {
-      // For hundreds of thousands, use 10k or 20k steps
-      step = 10000; // Default to 10k
-      const numTicksWith10k = Math.ceil(max / 10000);
-      if (numTicksWith10k > 12) {
-        step = 20000; // Use 20k if too many ticks
-      }
-    } else if (max >= 10000) {
-      // For tens of thousands, use 2k, 5k, or 10k steps
-      if (max < 20000) step = 2000;
-      else if (max < 50000) step = 5000;
-      else step = 10000;
-    } else if (max >= 1000) {
-      // For thousands, use 500, 1k, or 2k steps
-      if (max < 2000) step = 500;
-      else if (max < 5000) step = 1000;
-      else step = 2000;
-    } else if (max >= 100) {
-      // For hundreds, use 50, 100, or 200 steps
-      if (max < 200) step = 50;
-      else if (max < 500) step = 100;
-      else step = 200;
-    } else {
-      // For smaller values, use 10, 20, or 50 steps
-      if (max < 20) step = 10;
-      else if (max < 50) step = 20;
-      else step = 50;
-    }
-    
-    // Snap to first step ABOVE max value (no padding factor)
-    const yMax = Math.ceil(max / step) * step;
-    
-    return yMax;
-  }, [chartData]);
-
-  // Calculate Y-axis ticks using the same step size logic as maxValue
-  const yAxisTicks = useMemo(() => {
-    if (maxValue === 0) return [0, 100000];
-    
-    // Determine step size based on maxValue (same logic as maxValue calculation)
-    let step: number;
-    
-    if (maxValue >= 1000000) {
-      if (maxValue < 2000000) step = 200000;
-      else if (maxValue < 5000000) step = 500000;
-      else if (maxValue < 10000000) step = 1000000;
-      else if (maxValue < 20000000) step = 2000000;
-      else if (maxValue < 50000000) step = 5000000;
-      else step = 10000000;
-    } else if (maxValue >= 100000) {
-      step = 10000;
-      const numTicks = Math.ceil(maxValue / 10000);
-      if (numTicks > 12) {
-        step = 20000;
-      }
-    } else if (maxValue >= 10000) {
-      if (maxValue < 20000) step = 2000;
-      else if (maxValue < 50000) step = 5000;
-      else step = 10000;
-    } else if (maxValue >= 1000) {
-      if (maxValue < 2000) step = 500;
-      else if (maxValue < 5000) step = 1000;
-      else step = 2000;
-    } else if (maxValue >= 100) {
-      if (maxValue < 200) step = 50;
-      else if (maxValue < 500) step = 100;
-      else step = 200;
-    } else {
-      if (maxValue < 20) step = 10;
-      else if (maxValue < 50) step = 20;
-      else step = 50;
-    }
-    
-    // Generate ticks from 0 to maxValue using the step
-    const ticks = [0];
-    let current = step;
-    while (current <= maxValue) {
-      ticks.push(current);
-      current += step;
-    }
-    // Ensure maxValue is always included (it should be, but double-check)
-    if (ticks[ticks.length - 1] !== maxValue) {
-      ticks.push(maxValue);
-    }
-    return ticks;
-  }, [maxValue]);
+  // Every dollar value plotted against the left axis, to size it
+  const axisValues = useMemo(
+    () =>
+      plotData.flatMap((d) => [
+        d.total ?? 0,
+        d.contributed ?? 0,
+        d.p90 ?? 0,
+        d.historical ?? 0,
+        d.drawdown ?? 0,
+        d.delayed ?? 0,
+        d.stressed ?? 0,
+        d.dividends ?? 0,
+        ...Object.values(d.scenarios ?? {}).map((v) => v ?? 0),
+      ]),
+    [plotData]
+  );
+
+  // Y-axis top snapped to the first nice step above the largest value; log view uses powers of ten instead
+  const maxValue = useMemo(() => niceAxisMax(Math.max(0, ...axisValues)), [axisValues]);
+  const yAxisTicks = useMemo(
+    () => (chartMode === 'log' ? logAxisTicks(axisValues) : niceAxisTicks(maxValue)),
+    [chartMode, axisValues, maxValue]
+  );
+  const chartRows = useMemo(() => (chartMode === 'log' ? forLogScale(plotData) : plotData), [chartMode, plotData]);
 
   return (
     <div className="min-h-screen animated-gradient relative overflow-hidden">
@@ -502,7 +1413,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
             {/* Initial Investment Card */}
             <div className="bg-white/90 backdrop-blur-sm rounded-xl p-4 sm:p-6 shadow-lg border-2 border-teal-200 card-interactive ripple-effect flex flex-col">
               <label className="block text-sm sm:text-base font-bold text-gray-800 mb-3 sm:mb-4 min-h-[3rem]">
-                🎁 Initial Investment
+                🎁 Initial Investment (personal)
               </label>
               <input
                 type="range"
@@ -557,13 +1468,13 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
 
             <div className="bg-white/90 backdrop-blur-sm rounded-xl p-4 sm:p-6 shadow-lg border-2 border-blue-200 overflow-hidden card-interactive ripple-effect flex flex-col">
               <label className="block text-sm sm:text-base font-bold text-gray-800 mb-2 min-h-[2rem]">
-                💵 Monthly Investment
+                💵 {frequency.label} Investment
               </label>
               <p className="text-xs text-gray-600 mb-3">Super + personal (total drives the chart)</p>
 
               {/* Monthly Super */}
               <div className="mb-3">
-                <label id="monthly-super-label" className="block text-xs font-semibold text-gray-700 mb-1">Super ($/month)</label>
+                <label id="monthly-super-label" className="block text-xs font-semibold text-gray-700 mb-1">Super ($/{frequency.unit})</label>
                 <div className="flex items-center gap-2 w-full min-w-0">
                   <span className="text-sm text-gray-500 flex-shrink-0">$</span>
                   <input
@@ -589,7 +1500,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
 
               {/* Monthly Personal */}
               <div className="mb-2">
-                <label id="monthly-personal-label" className="block text-xs font-semibold text-gray-700 mb-1">Personal ($/month)</label>
+                <label id="monthly-personal-label" className="block text-xs font-semibold text-gray-700 mb-1">Personal ($/{frequency.unit})</label>
                 <div className="flex items-center gap-2 w-full min-w-0">
                   <span className="text-sm text-gray-500 flex-shrink-0">$</span>
                   <input
@@ -613,24 +1524,21 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                 </div>
               </div>
               <div className="text-sm font-bold text-gray-800 mb-3 pt-1 border-t border-blue-100">
-                Total: ${monthlyAmount.toLocaleString()}/month
+                Total: ${(monthlySuper + monthlyPersonal).toLocaleString()}/{frequency.unit}
+                {contributionFrequency !== 'monthly' && (
+                  <span className="font-medium text-gray-600"> (≈ ${Math.round(monthlyAmount).toLocaleString()}/month)</span>
+                )}
               </div>
 
-              {/* Take a break (pause contributing) */}
+              {/* Take a break (pause or cut contributions) */}
               <div className="mb-4 pb-4 border-b border-blue-200">
                 <button
-                  onClick={() => {
-                    if (!showTakeABreak) {
-                      setBreakPeriodsSuper([]);
-                      setBreakPeriodsPersonal([]);
-                    }
-                    setShowTakeABreak(!showTakeABreak);
-                  }}
+                  onClick={() => setShowTakeABreak(!showTakeABreak)}
                   className="w-full flex items-center justify-between text-sm text-amber-700 hover:text-amber-800 font-medium transition-colors"
                 >
                   <span className="flex items-center gap-2">
                     <span>⏸️</span>
-                    <span>Take a break from contributing?</span>
+                    <span>Take a break or cut back contributions?</span>
                   </span>
                   <span className={`transform transition-transform duration-200 ${showTakeABreak ? 'rotate-180' : ''}`}>
                     ▼
@@ -639,11 +1547,16 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                 {showTakeABreak && (
                   <div className="mt-3 space-y-4 animate-in slide-in-from-top-2 duration-200">
                     <p className="text-xs text-gray-600">
-                      Pause super and/or personal contributions for a period. Your balance still grows from returns; you just don’t add new money during the break.
+                      Pause or cut super and/or personal contributions for a period — e.g. parental leave on half super or part-time work. Your balance still grows from returns; you just add less (or nothing) during the break.
                     </p>
+                    <datalist id="break-label-presets">
+                      {BREAK_LABEL_PRESETS.map((label) => (
+                        <option key={label} value={label} />
+                      ))}
+                    </datalist>
                     {/* Pause Super */}
                     <div>
-                      <div className="text-xs font-semibold text-blue-700 mb-2">Pause super</div>
+                      <div className="text-xs font-semibold text-blue-700 mb-2">Super breaks</div>
                       {breakPeriodsSuper.map((bp, index) => (
                         <div key={`s-${index}`} className="bg-blue-50/80 rounded-lg p-3 relative flex flex-wrap items-center gap-2 mb-2">
                           <span className="text-xs text-gray-700">From age</span>
@@ -677,16 +1590,42 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                             }}
                             className="w-14 text-sm font-bold text-center border border-blue-300 rounded px-1 py-1"
                           />
+                          <span className="text-xs text-gray-700">cut by</span>
+                          <input
+                            type="number"
+                            min={10}
+                            max={100}
+                            step={10}
+                            value={bp.reductionPercent ?? 100}
+                            aria-label={`Super break ${index + 1} cut (% of contributions)`}
+                            onChange={(e) => {
+                              const cut = Math.max(10, Math.min(100, Math.round(Number(e.target.value) || 100)));
+                              setBreakPeriodsSuper(breakPeriodsSuper.map((b, i) => (i === index ? { ...b, reductionPercent: cut } : b)));
+                            }}
+                            className="w-14 text-sm font-bold text-center border border-blue-300 rounded px-1 py-1"
+                          />
+                          <span className="text-xs text-gray-700">%</span>
+                          <input
+                            type="text"
+                            list="break-label-presets"
+                            value={bp.label ?? ''}
+                            placeholder="Label, e.g. Sabbatical"
+                            aria-label={`Super break ${index + 1} label`}
+                            onChange={(e) =>
+                              setBreakPeriodsSuper(breakPeriodsSuper.map((b, i) => (i === index ? { ...b, label: e.target.value } : b)))
+                            }
+                            className="flex-1 min-w-[8rem] text-sm border border-blue-300 rounded px-2 py-1"
+                          />
                           <button type="button" onClick={() => setBreakPeriodsSuper(breakPeriodsSuper.filter((_, i) => i !== index))} className="text-blue-600 hover:text-red-600 text-xs font-bold px-2 py-0.5">Remove</button>
                         </div>
                       ))}
-                      <button type="button" onClick={() => setBreakPeriodsSuper([...breakPeriodsSuper, { fromAge: startAge + 5, toAge: startAge + 7 }])} className="w-full text-xs text-blue-700 hover:text-blue-800 font-medium py-1.5 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors">
+                      <button type="button" onClick={() => setBreakPeriodsSuper([...breakPeriodsSuper, { fromAge: startAge + 5, toAge: startAge + 7, reductionPercent: 100, label: '' }])} className="w-full text-xs text-blue-700 hover:text-blue-800 font-medium py-1.5 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors">
                         + Add super break
                       </button>
                     </div>
                     {/* Pause Personal */}
                     <div>
-                      <div className="text-xs font-semibold text-indigo-700 mb-2">Pause personal</div>
+                      <div className="text-xs font-semibold text-indigo-700 mb-2">Personal breaks</div>
                       {breakPeriodsPersonal.map((bp, index) => (
                         <div key={`p-${index}`} className="bg-indigo-50/80 rounded-lg p-3 relative flex flex-wrap items-center gap-2 mb-2">
                           <span className="text-xs text-gray-700">From age</span>
@@ -720,10 +1659,36 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                             }}
                             className="w-14 text-sm font-bold text-center border border-indigo-300 rounded px-1 py-1"
                           />
+                          <span className="text-xs text-gray-700">cut by</span>
+                          <input
+                            type="number"
+                            min={10}
+                            max={100}
+                            step={10}
+                            value={bp.reductionPercent ?? 100}
+                            aria-label={`Personal break ${index + 1} cut (% of contributions)`}
+                            onChange={(e) => {
+                              const cut = Math.max(10, Math.min(100, Math.round(Number(e.target.value) || 100)));
+                              setBreakPeriodsPersonal(breakPeriodsPersonal.map((b, i) => (i === index ? { ...b, reductionPercent: cut } : b)));
+                            }}
+                            className="w-14 text-sm font-bold text-center border border-indigo-300 rounded px-1 py-1"
+                          />
+                          <span className="text-xs text-gray-700">%</span>
+                          <input
+                            type="text"
+                            list="break-label-presets"
+                            value={bp.label ?? ''}
+                            placeholder="Label, e.g. Sabbatical"
+                            aria-label={`Personal break ${index + 1} label`}
+                            onChange={(e) =>
+                              setBreakPeriodsPersonal(breakPeriodsPersonal.map((b, i) => (i === index ? { ...b, label: e.target.value } : b)))
+                            }
+                            className="flex-1 min-w-[8rem] text-sm border border-indigo-300 rounded px-2 py-1"
+                          />
                           <button type="button" onClick={() => setBreakPeriodsPersonal(breakPeriodsPersonal.filter((_, i) => i !== index))} className="text-indigo-600 hover:text-red-600 text-xs font-bold px-2 py-0.5">Remove</button>
                         </div>
                       ))}
-                      <button type="button" onClick={() => setBreakPeriodsPersonal([...breakPeriodsPersonal, { fromAge: startAge + 5, toAge: startAge + 7 }])} className="w-full text-xs text-indigo-700 hover:text-indigo-800 font-medium py-1.5 border border-indigo-300 rounded-lg hover:bg-indigo-50 transition-colors">
+                      <button type="button" onClick={() => setBreakPeriodsPersonal([...breakPeriodsPersonal, { fromAge: startAge + 5, toAge: startAge + 7, reductionPercent: 100, label: '' }])} className="w-full text-xs text-indigo-700 hover:text-indigo-800 font-medium py-1.5 border border-indigo-300 rounded-lg hover:bg-indigo-50 transition-colors">
                         + Add personal break
                       </button>
                     </div>
@@ -959,7 +1924,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
               <input
                 type="range"
                 min={startAge + 1}
-                max="100"
+                max={MAX_TARGET_AGE}
                 step="1"
                 value={targetAge}
                 onChange={(e) => {
@@ -994,7 +1959,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                   onBlur={(e) => {
                     const age = Number(e.target.value) || (startAge + 1);
                     const minAge = startAge + 1;
-                    const clampedAge = Math.max(minAge, Math.min(100, age));
+                    const clampedAge = Math.max(minAge, Math.min(MAX_TARGET_AGE, age));
                     setTargetAge(clampedAge);
                   }}
                   onKeyDown={(e) => {
@@ -1063,7 +2028,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                         <div className="min-w-0">
                           <p className="font-bold text-gray-900 text-xs">Just Saving (Low Interest Bank Account):</p>
                           <p className="text-xs text-gray-700">
-                            Your ${(monthlyAmount * 12).toLocaleString()}/year stays ${(monthlyAmount * 12).toLocaleString()}. Minimal growth. 😴
+                            Your ${Math.round(monthlyAmount * 12).toLocaleString()}/year stays ${Math.round(monthlyAmount * 12).toLocaleString()}. Minimal growth. 😴
                           </p>
                         </div>
                       </div>
@@ -1073,22 +2038,15 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                         <div className="min-w-0">
                           <p className="font-bold text-green-700 text-xs">Investing (Like This Chart!):</p>
                           {(() => {
-                            const yearlyInvestment = monthlyAmount * 12;
+                            const yearlyInvestment = Math.round(monthlyAmount * 12);
                             const afterOneYear = yearlyInvestment * (1 + annualReturn / 100);
                             const growth = yearlyInvestment * annualReturn / 100;
-                            
-                            // Calculate 20-year projection
-                            const data20Years = calculateCompound(0, monthlySuper, monthlyPersonal, 20, annualReturn, 0);
-                            const after20Years = data20Years[data20Years.length - 1]?.total || 0;
-                            
-                            // Calculate 30-year projection
-                            const data30Years = calculateCompound(0, monthlySuper, monthlyPersonal, 30, annualReturn, 0);
-                            const after30Years = data30Years[data30Years.length - 1]?.total || 0;
+                            const { after20Years, after30Years } = habitTotals;
                             
                             return (
                               <>
                                 <p className="text-xs text-gray-700 mb-1">
-                                  If you invest <strong>${yearlyInvestment.toLocaleString()}</strong> (${monthlyAmount.toLocaleString()}/month × 12) for <strong>one full year</strong> at {annualReturn}% annual return, 
+                                  If you invest <strong>${yearlyInvestment.toLocaleString()}</strong> (${Math.round(monthlyAmount).toLocaleString()}/month × 12) for <strong>one full year</strong> at {annualReturn}% annual return, 
                                   it grows to <strong className="text-green-700">${Math.round(afterOneYear).toLocaleString()}</strong>! 
                                   That's <strong className="text-green-700">${Math.round(growth).toLocaleString()}</strong> of <em>free money</em> you earned! 🎉
                                 </p>
@@ -1117,14 +2075,210 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
             </div>
           </div>
 
+          <ValueBasisControl
+            basis={valueBasis}
+            onBasisChange={setValueBasis}
+            inflationRate={inflationRate}
+            onInflationRateChange={setInflationRate}
+          />
+          <ChartModeControl mode={chartMode} onModeChange={setChartMode} />
+          <FrequencyControls
+            frequency={contributionFrequency}
+            onFrequencyChange={handleFrequencyChange}
+            compounding={compounding}
+            onCompoundingChange={setCompounding}
+          />
+          <GoalSolverControls
+            enabled={showGoalSolver}
+            onEnabledChange={setShowGoalSolver}
+            goal={goal}
+            onGoalChange={setGoal}
+            requiredBalance={goalBalance}
+            result={goalResult}
+            onApply={applyGoalResult}
+            targetAge={targetAge}
+            maxAge={MAX_TARGET_AGE}
+            contributionUnit={frequency.unit}
+            monthlyUnavailableNote={useSalary ? 'Contributions come from your salary in income mode — solve for return or age instead.' : undefined}
+          />
+          <CostOfWaitingControls
+            delayYears={effectiveDelayYears}
+            onDelayYearsChange={setDelayYears}
+            maxDelayYears={maxDelayYears}
+            showOnChart={showDelayLine}
+            onShowOnChartChange={setShowDelayLine}
+            summary={costOfWaiting}
+            targetAge={targetAge}
+          />
+          <ScenarioControls
+            current={currentOutcome}
+            pinned={scenarioOutcomes}
+            onPin={pinScenario}
+            onRename={(id, name) => setScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)))}
+            onRemove={(id) => setScenarios((prev) => prev.filter((s) => s.id !== id))}
+          />
+          <SalaryControls
+            enabled={useSalary}
+            onEnabledChange={setUseSalary}
+            settings={salarySettings}
+            onSettingsChange={setSalarySettings}
+          />
+          <IndexationControls
+            enabled={showIndexation}
+            onEnabledChange={setShowIndexation}
+            indexation={indexation}
+            onIndexationChange={setIndexation}
+            examples={indexationExamples}
+            targetAge={targetAge}
+            unit={frequency.unit}
+            disabledNote={useSalary ? 'Contributions already rise with your salary in income mode.' : undefined}
+          />
+          <LumpSumControls
+            events={lumpSums}
+            onEventsChange={setLumpSums}
+            pots={[
+              { id: 'super', label: 'Super', lockedUntil: preservationAge },
+              { id: 'personal', label: 'Personal' },
+            ]}
+            applied={projection.events}
+            startAge={startAge}
+            targetAge={targetAge}
+          />
+          <PotControls
+            pots={[
+              { id: 'super', label: 'Super', settings: potSettings.super, finalBalance: finalPots?.super?.balance ?? 0 },
+              {
+                id: 'personal',
+                label: 'Personal',
+                settings: potSettings.personal,
+                finalBalance: finalPots?.personal?.balance ?? 0,
+                returnFixed: showPortfolio,
+              },
+            ]}
+            onChange={handlePotSettingsChange}
+            separateReturns={separatePotReturns}
+            onSeparateReturnsChange={handleSeparatePotReturnsChange}
+            chartView={potChartView}
+            onChartViewChange={setPotChartView}
+            targetAge={targetAge}
+          />
+          <StressTestControls
+            enabled={showStressTest}
+            onEnabledChange={setShowStressTest}
+            crash={crash}
+            onCrashChange={setCrash}
+            startAge={startAge}
+            targetAge={targetAge}
+            summary={stressSummary}
+          />
+          <GlidePathControls
+            enabled={showGlidePath}
+            onEnabledChange={setShowGlidePath}
+            settings={glidePath}
+            onSettingsChange={setGlidePath}
+            growthReturn={annualReturn}
+            startAge={startAge}
+            targetAge={targetAge}
+            note={
+              showPortfolio
+                ? 'Super follows this glide path; your personal portfolio mix keeps its own return.'
+                : 'Both super and personal investments follow this glide path.'
+            }
+          />
+          <PortfolioControls
+            enabled={showPortfolio}
+            onEnabledChange={setShowPortfolio}
+            settings={portfolio}
+            onSettingsChange={setPortfolio}
+            blend={portfolioBlend}
+            driftedAtTarget={portfolioDrift}
+            targetAge={targetAge}
+            appliesTo="your personal investments (super keeps its own return)"
+          />
+          <SuperAccessControl
+            preservationAge={preservationAge}
+            onPreservationAgeChange={setPreservationAge}
+            showAccessibleLine={showAccessibleLine}
+            onShowAccessibleLineChange={setShowAccessibleLine}
+            targetAge={targetAge}
+            lockedAtTarget={finalAmount - accessibleAtTarget}
+            accessibleAtTarget={accessibleAtTarget}
+          />
+          <FeeControls
+            pots={[
+              { id: 'super', label: 'Super', fees: feesSuper },
+              { id: 'personal', label: 'Personal', fees: feesPersonal },
+            ]}
+            onChange={(id, fees) => (id === 'super' ? setFeesSuper(fees) : setFeesPersonal(fees))}
+            summary={feeSummary}
+            targetAge={targetAge}
+          />
+          <DividendControls
+            enabled={showDividends}
+            onEnabledChange={setShowDividends}
+            settings={dividendSettings}
+            onSettingsChange={setDividendSettings}
+            maxYield={maxDividendYield}
+            annualReturn={separatePotReturns ? undefined : annualReturn}
+            totalDividends={totalDividends}
+            passiveIncome={passiveIncome}
+            targetAge={targetAge}
+            note="Super dividends are always reinvested; taking cash applies to your personal investments."
+          />
+          <MonteCarloControls
+            enabled={showMonteCarlo}
+            onEnabledChange={setShowMonteCarlo}
+            settings={monteCarloSettings}
+            onSettingsChange={setMonteCarloSettings}
+            targetBalance={targetBalance}
+            onTargetBalanceChange={setTargetBalance}
+            probability={targetProbability}
+            targetAge={targetAge}
+            pending={monteCarloPending}
+          />
+          <BacktestControls
+            enabled={showBacktest}
+            onEnabledChange={setShowBacktest}
+            indexId={backtestIndexId}
+            onIndexChange={setBacktestIndexId}
+            result={backtest}
+            overlayYear={backtestOverlayYear}
+            onOverlayYearChange={setBacktestOverlayYear}
+            displayFinal={(o) => toDisplayBasis(o.final.total, o.final.age)}
+            targetAge={targetAge}
+          />
+          <DrawdownControls
+            enabled={showDrawdown}
+            onEnabledChange={setShowDrawdown}
+            plan={drawdownPlan}
+            onPlanChange={setDrawdownPlan}
+            targetAge={targetAge}
+            inflationRate={inflationRate}
+            depletionAge={drawdown?.depletionAge ?? null}
+            sustainableSpendToday={sustainableSpendToday}
+            accessGap={
+              drawdown?.accessGapAge != null
+                ? {
+                    age: drawdown.accessGapAge,
+                    amount: toDisplayBasis(drawdown.accessGap, preservationAge),
+                    unlockAge: preservationAge,
+                  }
+                : null
+            }
+          />
+
           {/* Chart */}
           <div
             ref={chartForPdfRef}
             className="bg-white/90 backdrop-blur-sm rounded-xl p-2 sm:p-3 shadow-lg mb-8 w-full card-interactive relative"
           >
+            <p className="sr-only">
+              Chart of the projected balance by age. The year-by-year table after the chart lists the same figures
+              for every year.
+            </p>
             <ResponsiveContainer width="100%" height={isMobile ? 400 : 550}>
-              <LineChart 
-                data={chartData} 
+              <ComposedChart 
+                data={chartRows} 
                 margin={isMobile ? { top: 20, right: 15, left: 45, bottom: 30 } : { top: 38, right: 38, left: 38, bottom: 38 }}
               >
                 <CartesianGrid 
@@ -1149,8 +2303,9 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                   interval="preserveStartEnd"
                 />
                 <YAxis
-                  scale="linear"
-                  domain={[0, maxValue]}
+                  scale={chartMode === 'log' ? 'log' : 'linear'}
+                  domain={chartMode === 'log' ? [yAxisTicks[0], yAxisTicks[yAxisTicks.length - 1]] : [0, maxValue]}
+                  allowDataOverflow={chartMode === 'log'}
                   stroke="#111827"
                   strokeWidth={isMobile ? 1.5 : 2}
                   tick={{ 
@@ -1171,9 +2326,31 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                     return `$${value.toLocaleString()}`;
                   }}
                 />
+                {chartMode === 'growthShare' && (
+                  <YAxis
+                    yAxisId="share"
+                    orientation="right"
+                    domain={[0, 100]}
+                    ticks={[0, 25, 50, 75, 100]}
+                    stroke="#4d7c0f"
+                    tick={{ fontSize: isMobile ? 11 : 14, fill: '#4d7c0f', fontWeight: 700 }}
+                    width={isMobile ? 36 : 48}
+                    tickFormatter={(value: number) => `${value}%`}
+                  />
+                )}
                 <Tooltip
-                  formatter={(value: number) => `$${value.toLocaleString()}`}
-                  labelFormatter={(label) => `Age ${label}`}
+                  formatter={(value: number | number[], _name, item) =>
+                    Array.isArray(value)
+                      ? item.dataKey === 'lossBand'
+                        ? `−$${(value[1] - value[0]).toLocaleString()}`
+                        : `$${value[0].toLocaleString()} – $${value[1].toLocaleString()}`
+                      : item.dataKey === 'growthShare'
+                        ? `${value}%`
+                        : `$${value.toLocaleString()}`
+                  }
+                  labelFormatter={(label) =>
+                    Number(label) <= targetAge ? `Age ${label} · ${describeReturnAt(Number(label))}` : `Age ${label}`
+                  }
                   contentStyle={{ 
                     backgroundColor: '#fff', 
                     border: '2px solid #3b82f6', 
@@ -1200,25 +2377,337 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                   iconType="line"
                   iconSize={isMobile ? 15 : 20}
                 />
-                <Line
-                  type="monotone"
-                  dataKey="total"
-                  name="Total Value"
-                  stroke="#2563eb"
-                  strokeWidth={isMobile ? 3 : 5}
-                  dot={false}
-                  activeDot={{ r: isMobile ? 6 : 10, fill: '#2563eb', strokeWidth: 3, stroke: '#fff' }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="contributed"
-                  name="Amount Invested"
-                  stroke="#10b981"
-                  strokeWidth={isMobile ? 3 : 5}
-                  strokeDasharray="10 5"
-                  dot={false}
-                  activeDot={{ r: isMobile ? 6 : 10, fill: '#10b981', strokeWidth: 3, stroke: '#fff' }}
-                />
+                {breakShading.map((region) => (
+                  <ReferenceArea
+                    key={`${region.fromAge}-${region.toAge}-${region.label}`}
+                    x1={region.fromAge}
+                    x2={region.toAge}
+                    fill="#fcd34d"
+                    fillOpacity={0.25}
+                    stroke="#f59e0b"
+                    strokeOpacity={0.4}
+                    ifOverflow="hidden"
+                    label={{
+                      value: `${region.label} · ${region.pots.join(', ')}`,
+                      position: 'insideTop',
+                      style: { fontSize: isMobile ? '9px' : '12px', fontWeight: 'bold', fill: '#92400e' },
+                    }}
+                  />
+                ))}
+                {potView === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="pots.super.balance"
+                    name="Super"
+                    stackId="pots"
+                    stroke="#0891b2"
+                    fill="#67e8f9"
+                    fillOpacity={0.5}
+                  />
+                )}
+                {potView === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="pots.personal.balance"
+                    name="Personal"
+                    stackId="pots"
+                    stroke="#6366f1"
+                    fill="#a5b4fc"
+                    fillOpacity={0.5}
+                  />
+                )}
+                {monteCarloBands && (
+                  <Area
+                    type="monotone"
+                    dataKey="percentileRange"
+                    name="10th–90th Percentile"
+                    stroke="#a78bfa"
+                    strokeDasharray="6 4"
+                    fill="#ddd6fe"
+                    fillOpacity={0.45}
+                  />
+                )}
+                {chartMode === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="stackInvested"
+                    name={totalWithdrawn > 0 ? 'Amount Invested Less Withdrawals' : 'Amount Invested'}
+                    stackId="split"
+                    stroke="#10b981"
+                    fill="#6ee7b7"
+                    fillOpacity={0.6}
+                  />
+                )}
+                {chartMode === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="stackGrowth"
+                    name="Growth"
+                    stackId="split"
+                    stroke="#2563eb"
+                    fill="#93c5fd"
+                    fillOpacity={0.6}
+                  />
+                )}
+                {chartMode === 'stacked' && plotData.some((d) => d.lossBand) && (
+                  <Area
+                    type="monotone"
+                    dataKey="lossBand"
+                    name="Lost From Invested"
+                    stroke="#dc2626"
+                    fill="#fca5a5"
+                    fillOpacity={0.7}
+                  />
+                )}
+                {chartMode !== 'stacked' && (
+                  <Line
+                    type="monotone"
+                    dataKey="total"
+                    name="Total Value"
+                    stroke="#2563eb"
+                    strokeWidth={isMobile ? 3 : 5}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 6 : 10, fill: '#2563eb', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {chartMode !== 'stacked' && (
+                  <Line
+                    type="monotone"
+                    dataKey="contributed"
+                    name="Amount Invested"
+                    stroke="#10b981"
+                    strokeWidth={isMobile ? 3 : 5}
+                    strokeDasharray="10 5"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 6 : 10, fill: '#10b981', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {chartMode === 'growthShare' && (
+                  <Line
+                    yAxisId="share"
+                    type="monotone"
+                    dataKey="growthShare"
+                    name="% From Growth"
+                    stroke="#4d7c0f"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="1 3"
+                    strokeLinecap="round"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#4d7c0f', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {showAccessibleLine && (
+                  <Line
+                    type="stepAfter"
+                    dataKey="accessible"
+                    name="Accessible Now"
+                    stroke="#ea580c"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="2 3"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#ea580c', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {potView === 'pots' && (
+                  <Line
+                    type="monotone"
+                    dataKey="pots.super.balance"
+                    name="Super"
+                    stroke="#0891b2"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                  />
+                )}
+                {potView === 'pots' && (
+                  <Line
+                    type="monotone"
+                    dataKey="pots.personal.balance"
+                    name="Personal"
+                    stroke="#6366f1"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                  />
+                )}
+                {monteCarloBands && (
+                  <Line
+                    type="monotone"
+                    dataKey="p50"
+                    name="Median (Simulated)"
+                    stroke="#7c3aed"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                  />
+                )}
+                {backtestOverlay && (
+                  <Line
+                    type="monotone"
+                    dataKey="historical"
+                    name={`History from ${backtestOverlay.startYear}`}
+                    stroke="#d97706"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#d97706', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {scenarioOutcomes.map((sc) => (
+                  <Line
+                    key={sc.id}
+                    type="monotone"
+                    dataKey={`scenarios.${sc.id}`}
+                    name={sc.name || 'Pinned plan'}
+                    stroke={sc.colour}
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: sc.colour, strokeWidth: 3, stroke: '#fff' }}
+                  />
+                ))}
+                {stressedRows && (
+                  <Line
+                    type="monotone"
+                    dataKey="stressed"
+                    name={`After a ${crash.fallPercent}% Crash`}
+                    stroke="#991b1b"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="10 3 2 3"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#991b1b', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {stressedRows && (
+                  <ReferenceLine
+                    x={crashAge}
+                    stroke="#991b1b"
+                    strokeWidth={isMobile ? 1 : 2}
+                    strokeDasharray="3 3"
+                    label={{
+                      value: `Crash −${crash.fallPercent}%`,
+                      position: 'insideBottomLeft',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#991b1b' },
+                    }}
+                  />
+                )}
+                {showDelayLine && (
+                  <Line
+                    type="monotone"
+                    dataKey="delayed"
+                    name={`Starting ${effectiveDelayYears} Years Later`}
+                    stroke="#e11d48"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="8 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#e11d48', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {drawdownRows && (
+                  <Line
+                    type="monotone"
+                    dataKey="drawdown"
+                    name="Balance While Spending"
+                    stroke="#0d9488"
+                    strokeWidth={isMobile ? 3 : 4}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 6 : 9, fill: '#0d9488', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {drawdown?.accessGapAge != null && (
+                  <ReferenceArea
+                    x1={Math.floor(drawdown.accessGapAge)}
+                    x2={preservationAge}
+                    fill="#fecaca"
+                    fillOpacity={0.4}
+                    stroke="#dc2626"
+                    strokeOpacity={0.4}
+                    ifOverflow="hidden"
+                    label={{
+                      value: 'Super still locked',
+                      position: 'insideTop',
+                      style: { fontSize: isMobile ? '9px' : '12px', fontWeight: 'bold', fill: '#b91c1c' },
+                    }}
+                  />
+                )}
+                {drawdown?.depletionAge != null && (
+                  <ReferenceLine
+                    x={Math.floor(drawdown.depletionAge)}
+                    stroke="#dc2626"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="6 4"
+                    label={{
+                      value: `Runs out at ${Math.floor(drawdown.depletionAge)}`,
+                      position: 'insideTopRight',
+                      style: { fontSize: isMobile ? '11px' : '14px', fontWeight: 'bold', fill: '#dc2626' },
+                    }}
+                  />
+                )}
+                {feeSummary.feeDrag > 0 && (
+                  <Line
+                    type="monotone"
+                    dataKey="feeDrag"
+                    name="Fee Drag"
+                    stroke="#dc2626"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#dc2626', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {showDividends && (
+                  <Line
+                    type="monotone"
+                    dataKey="dividends"
+                    name={dividendSettings.reinvest ? 'Dividends Reinvested' : 'Dividends Paid Out'}
+                    stroke="#0284c7"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="2 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#0284c7', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {lumpSumMarkers.map((m) => (
+                  <ReferenceDot
+                    key={`lump-${m.eventIndex}`}
+                    x={m.age}
+                    y={m.total}
+                    r={isMobile ? 5 : 7}
+                    fill={m.shortfall > 0 ? '#b91c1c' : m.applied < 0 ? '#f97316' : '#c026d3'}
+                    stroke="#fff"
+                    strokeWidth={2}
+                    label={{
+                      value: signedShortMoney(m.applied),
+                      position: 'top',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#86198f' },
+                    }}
+                  />
+                ))}
+                {scheduleMarkers.map((step, i) => (
+                  <ReferenceLine
+                    key={`step-${i}`}
+                    x={step.age}
+                    stroke="#1d4ed8"
+                    strokeWidth={isMobile ? 1 : 1.5}
+                    strokeDasharray="2 4"
+                    label={{
+                      value: `${step.amount > step.previous ? '↑' : '↓'} $${step.amount.toLocaleString()}/${frequency.unit}`,
+                      position: 'insideTopLeft',
+                      style: { fontSize: isMobile ? '9px' : '12px', fontWeight: 'bold', fill: '#1d4ed8' },
+                    }}
+                  />
+                ))}
+                {milestones.map((m) => (
+                  <ReferenceDot
+                    key={m.id}
+                    x={m.age}
+                    y={m.total}
+                    r={isMobile ? 5 : 7}
+                    fill="#fff"
+                    stroke="#b45309"
+                    strokeWidth={3}
+                    label={{
+                      value: m.label,
+                      position: 'left',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#b45309' },
+                    }}
+                  />
+                ))}
                 <ReferenceLine
                   x={targetAge}
                   stroke="#9333ea"
@@ -1236,7 +2725,7 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                     }
                   }}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
             
             {/* Summary Stats - Positioned side by side in top middle white space */}
@@ -1278,24 +2767,78 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
                   </div>
                   <div className={`${isMobile ? 'text-[9px] sm:text-[10px]' : 'text-[10px] sm:text-xs'} font-semibold opacity-95 leading-tight`}>Free Money!</div>
                 </div>
+                {totalWithdrawn > 0 && (
+                  <div
+                    className="bg-gradient-to-br from-rose-500 via-rose-600 to-rose-700 rounded-xl p-2 sm:p-2.5 shadow-2xl text-center text-white transform hover:scale-105 hover:shadow-3xl hover:z-20 transition-all duration-300 cursor-pointer border-2 border-white/40 hover:border-white/60 backdrop-blur-md flex-1"
+                    title="Taken out by lump-sum withdrawals"
+                    style={{ boxShadow: '0 10px 25px rgba(225, 29, 72, 0.4)' }}
+                  >
+                    <div className={`${isMobile ? 'text-base sm:text-lg' : 'text-lg sm:text-xl'} font-extrabold mb-0.5 leading-tight`}>
+                      {shortMoney(totalWithdrawn)}
+                    </div>
+                    <div className={`${isMobile ? 'text-[9px] sm:text-[10px]' : 'text-[10px] sm:text-xs'} font-semibold opacity-95 leading-tight`}>Withdrawn</div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          <YearByYearTable
+            enabled={showYearTable}
+            onEnabledChange={setShowYearTable}
+            rows={yearFlows}
+            basisNote={`${describeValueBasis(valueBasis, inflationRate).toLowerCase()}${
+              valueBasis === 'real' ? ', each row at its own year-end prices' : ''
+            }`}
+          />
+          <LifeTimeline
+            startAge={startAge}
+            targetAge={targetAge}
+            payChanges={showAdvancedContributions && !useSalary ? contributionSchedule : []}
+            onPayChangesChange={handleTimelinePayChanges}
+            breaksSuper={showTakeABreak ? breakPeriodsSuper : []}
+            onBreaksSuperChange={(breaks) => handleTimelineBreaks('super', breaks)}
+            breaksPersonal={showTakeABreak ? breakPeriodsPersonal : []}
+            onBreaksPersonalChange={(breaks) => handleTimelineBreaks('personal', breaks)}
+            lumpSums={lumpSums}
+            onLumpSumsChange={setLumpSums}
+            baseSuper={monthlySuper}
+            basePersonal={monthlyPersonal}
+            frequencyUnit={frequency.unit}
+            payChangesNote={useSalary ? 'Contributions follow your salary in income mode.' : undefined}
+          />
+
+          <SequenceRiskPanel
+            enabled={showSequenceRisk}
+            onEnabledChange={setShowSequenceRisk}
+            indexId={sequenceIndexId}
+            onIndexChange={setSequenceIndexId}
+            startYear={sequenceStartYear}
+            onStartYearChange={setSequenceStartYear}
+            result={sequenceRisk}
+            rows={sequenceRows}
+            untouchedFinal={sequenceUntouchedFinal}
+            targetAge={targetAge}
+            lifeExpectancy={drawdownSettings.lifeExpectancy}
+            annualSpendingToday={drawdownPlan.annualSpendingToday}
+            isMobile={isMobile}
+          />
+
           <div className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl p-4 sm:p-6 text-center">
             <p className="text-lg sm:text-2xl font-bold text-gray-800 mb-2">
               🎉 Starting at age <span className="text-purple-600">{startAge}</span> with{' '}
-              <span className="text-blue-600">${monthlySuper}/mo super</span>
-              {monthlyPersonal > 0 && (
+              <span className="text-blue-600">${firstYearContributions.super}/{frequency.unit} super</span>
+              {firstYearContributions.personal > 0 && (
                 <>
-                  {' '}+ <span className="text-indigo-600">${monthlyPersonal}/mo personal</span>
+                  {' '}+ <span className="text-indigo-600">${firstYearContributions.personal}/{frequency.unit} personal</span>
                 </>
               )}
-              {' '}(<span className="text-gray-700">${monthlyAmount}/month total</span>)
+              {' '}(<span className="text-gray-700">${firstYearContributions.super + firstYearContributions.personal}/{frequency.unit} total</span>)
             </p>
             <p className="text-base sm:text-xl text-gray-700">
               By age <span className="text-orange-600 font-bold">{targetAge}</span>, you could have{' '}
               <span className="text-blue-600 font-bold text-2xl sm:text-3xl">${finalAmount.toLocaleString()}</span>
+              {valueBasis === 'real' && <span className="text-sm sm:text-base text-gray-600"> in today&apos;s dollars</span>}
             </p>
             <p className="text-sm sm:text-lg text-gray-600 mt-3">
               That's <strong>${totalGrowth.toLocaleString()}</strong> in free growth money! 🚀
@@ -1427,27 +2970,32 @@ const FamilyWealthBlueprint: React.FC<FamilyWealthBlueprintProps> = ({ pdfExport
             Start now. Stay consistent. Watch it grow. 🚀
           </p>
           
-          {/* Simple visual bars - stack on mobile, horizontal on desktop */}
+          {/* Live start-now vs start-later comparison from the calculator - stack on mobile, horizontal on desktop */}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-3 md:gap-6 mt-4 sm:mt-6 md:mt-8">
             <div className="text-center transform hover:scale-110 transition-transform">
-              <div className="bg-white/20 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$0</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Start Here</div>
+              <div className="bg-white/40 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">${costOfWaiting.nowTotal.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Start now → age {targetAge} 🎉</div>
               </div>
             </div>
             <div className="text-center transform hover:scale-110 transition-transform">
               <div className="bg-white/30 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$200/mo</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Keep Going</div>
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">${costOfWaiting.delayedTotal.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">
+                  Start in {costOfWaiting.delayYears} {costOfWaiting.delayYears === 1 ? 'year' : 'years'}
+                </div>
               </div>
             </div>
             <div className="text-center transform hover:scale-110 transition-transform">
-              <div className="bg-white/40 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$1.2M+</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">You Win! 🎉</div>
+              <div className="bg-white/20 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">−${costOfWaiting.cost.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">The cost of waiting</div>
               </div>
             </div>
           </div>
+          <p className="text-sm sm:text-base text-center opacity-90 mt-4">
+            Based on your plan above. Change the delay in the ⏳ Cost of waiting box.
+          </p>
         </div>
       </section>
 
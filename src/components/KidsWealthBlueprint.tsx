@@ -1,7 +1,8 @@
-import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef, useDeferredValue } from 'react';
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -9,10 +10,83 @@ import {
   Tooltip,
   Legend,
   ReferenceLine,
+  ReferenceDot,
 } from 'recharts';
 import { buildKidsReportHtml } from './wealthReport/kidsReportHtml';
 import { captureElementAsPngDataUrl } from './wealthReport/captureChartForPdf';
 import { exportReportToPdf } from './wealthReport/openReportWindow';
+import { forLogScale, logAxisTicks, niceAxisMax, niceAxisTicks } from './chartScale';
+import { shortMoney, signedShortMoney } from './moneyLabels';
+import ValueBasisControl from './projectionControls/ValueBasisControl';
+import ChartModeControl, { type ChartMode } from './projectionControls/ChartModeControl';
+import YearByYearTable from './projectionControls/YearByYearTable';
+import FrequencyControls from './projectionControls/FrequencyControls';
+import FeeControls from './projectionControls/FeeControls';
+import DividendControls, { type DividendSettings } from './projectionControls/DividendControls';
+import PortfolioControls, { blockColour } from './projectionControls/PortfolioControls';
+import GlidePathControls, { glidePathSchedule, type GlidePathSettings } from './projectionControls/GlidePathControls';
+import StressTestControls from './projectionControls/StressTestControls';
+import MonteCarloControls from './projectionControls/MonteCarloControls';
+import BacktestControls from './projectionControls/BacktestControls';
+import IndexationControls from './projectionControls/IndexationControls';
+import LumpSumControls from './projectionControls/LumpSumControls';
+import GoalSolverControls, { type GoalSettings } from './projectionControls/GoalSolverControls';
+import CostOfWaitingControls from './projectionControls/CostOfWaitingControls';
+import ScenarioControls, {
+  nextScenarioColour,
+  nextScenarioName,
+  type PinnedScenario,
+  type ScenarioOutcome,
+} from './projectionControls/ScenarioControls';
+import {
+  DEFAULT_PORTFOLIO_BLOCKS,
+  ageReachingTarget,
+  annualDividendIncome,
+  applyValueBasis,
+  balanceForIncome,
+  blendPortfolio,
+  contributionAtAge,
+  contributionSteps,
+  convertAmount,
+  deflateFields,
+  deflationFactor,
+  delayedStart,
+  describeValueBasis,
+  driftedWeights,
+  findFrequency,
+  findHistoricalIndex,
+  findMilestones,
+  findOutcome,
+  fromMonthlyAmount,
+  portfolioReturnPath,
+  probabilityOfReaching,
+  returnInForce,
+  runBacktest,
+  runMonteCarlo,
+  runProjection,
+  runProjectionWithFeeDrag,
+  solveForTarget,
+  summariseCostOfWaiting,
+  summariseFees,
+  summariseStressTest,
+  toMonthlyAmount,
+  toTodaysDollars,
+  yearlyFlowsInBasis,
+  type CompoundingConvention,
+  type ContributionFrequency,
+  type ContributionIndexation,
+  type MarketShock,
+  type PotFees,
+  type MonteCarloSettings,
+  type PercentileBand,
+  type PortfolioSettings,
+  type ProjectionEvent,
+  type ProjectionInput,
+  type ProjectionYear,
+  type ReturnScheduleEntry,
+  type ScheduleEntry,
+  type ValueBasis,
+} from '../projection';
 
 /** Child or young person — current age 0–18; future projection age up to 110. */
 const CHILD_AGE_MIN = 0;
@@ -24,58 +98,117 @@ const Icon = ({ emoji, className = '' }: { emoji: string; className?: string })
   <span className={`text-4xl ${className}`}>{emoji}</span>
 );
 
-// Compounding calculator with optional age-based contribution schedule
-const calculateCompound = (
-  startAge: number,
-  monthlyAmount: number,
-  years: number,
-  annualReturn: number,
-  initialInvestment: number = 0,
-  contributionSchedule?: Array<{ age: number; amount: number }>
-): Array<{ age: number; total: number; contributed: number; growth: number }> => {
-  const data = [];
-  let balance = initialInvestment;
-  let totalContributed = initialInvestment;
-  const monthlyReturn = annualReturn / 100 / 12;
-  const totalMonths = years * 12;
-
-  // Helper to get monthly amount at a specific age
-  const getMonthlyAmountAtAge = (age: number): number => {
-    if (!contributionSchedule || contributionSchedule.length === 0) {
-      return monthlyAmount;
-    }
-    // Sort schedule by age and find the most recent applicable amount
-    const sorted = [...contributionSchedule].sort((a, b) => b.age - a.age);
-    for (const entry of sorted) {
-      if (age >= entry.age) {
-        return entry.amount;
-      }
-    }
-    return monthlyAmount; // Default to base amount
+/** Everything the Kids calculator needs to run one projection. */
+type KidsPlan = {
+  startAge: number;
+  years: number;
+  annualReturn: number;
+  /** ETF mix whose blended (or drifting) return replaces `annualReturn`. */
+  portfolio?: PortfolioSettings;
+  /** Return by age (a glide path); a portfolio mix takes precedence. */
+  returnSchedule?: ReturnScheduleEntry[];
+  initialInvestment: number;
+  monthlyAmount: number;
+  contributionSchedule?: ScheduleEntry[];
+  fees?: PotFees;
+  /** Part of the return paid as dividends, optionally taken as cash. */
+  dividendYield?: number;
+  payOutDividends?: boolean;
+  indexation?: ContributionIndexation;
+  events?: ProjectionEvent[];
+  /** Pay cycle; `monthlyAmount`, the schedule and the indexation cap are per payment. Defaults to monthly. */
+  contributionFrequency?: ContributionFrequency;
+  compounding?: CompoundingConvention;
+};
+
+// Single-pot projection with optional age-based contribution schedule and fees
+const buildKidsProjection = (plan: KidsPlan): ProjectionInput => {
+  const perMonth = (amount: number) => toMonthlyAmount(amount, plan.contributionFrequency);
+  return {
+    startAge: plan.startAge,
+    years: plan.years,
+    annualReturn: plan.annualReturn,
+    compounding: plan.compounding,
+    contributionFrequency: plan.contributionFrequency,
+    pots: [
+      {
+        id: 'kids',
+        label: 'Investment',
+        initialBalance: plan.initialInvestment,
+        annualReturnPath: plan.portfolio && portfolioReturnPath(plan.portfolio, plan.years),
+        returnSchedule: plan.returnSchedule,
+        monthlyContribution: perMonth(plan.monthlyAmount),
+        schedule: plan.contributionSchedule?.map((e) => ({ age: e.age, amount: perMonth(e.amount) })),
+        indexation: plan.indexation && { ...plan.indexation, capMonthly: perMonth(plan.indexation.capMonthly) },
+        dividendYield: plan.dividendYield,
+        payOutDividends: plan.payOutDividends,
+        ...plan.fees,
+      },
+    ],
+    events: plan.events,
   };
+};
 
-  for (let month = 0; month <= totalMonths; month++) {
-    const currentAge = startAge + month / 12;
-    const currentMonthlyAmount = getMonthlyAmountAtAge(currentAge);
-    
-    if (month > 0) {
-      balance = balance * (1 + monthlyReturn) + currentMonthlyAmount;
-      totalContributed += currentMonthlyAmount;
-    }
-    const growth = balance - totalContributed;
-
-    if (month % 12 === 0) {
-      data.push({
-        age: currentAge,
-        total: Math.round(balance),
-        contributed: Math.round(totalContributed),
-        growth: Math.round(growth),
-      });
-    }
+/**
+ * Same plan with a new amount per payment; schedule entries scale with it so their shape is kept. From a base of
+ * nothing there is no ratio to scale by, so the amount is added to every entry instead.
+ */
+const withMonthlyAmount = (plan: KidsPlan, monthly: number): KidsPlan => {
+  if (plan.monthlyAmount <= 0) {
+    return {
+      ...plan,
+      monthlyAmount: monthly,
+      contributionSchedule: plan.contributionSchedule?.map((e) => ({ age: e.age, amount: e.amount + monthly })),
+    };
   }
-  return data;
+  const scale = monthly / plan.monthlyAmount;
+  return {
+    ...plan,
+    monthlyAmount: monthly,
+    contributionSchedule: plan.contributionSchedule?.map((e) => ({ age: e.age, amount: e.amount * scale })),
+  };
+};
+
+/** One-line summary of a plan for the scenario table, e.g. "$50/month at 8%, to 18". */
+const describeKidsPlan = (plan: KidsPlan): string => {
+  const extras = [
+    plan.initialInvestment > 0 ? `$${plan.initialInvestment.toLocaleString()} to start` : '',
+    plan.contributionSchedule?.length ? 'schedule' : '',
+    plan.events?.length ? 'lump sums' : '',
+  ].filter(Boolean);
+  const rate = plan.portfolio
+    ? `${blendPortfolio(plan.portfolio.blocks).annualReturn.toFixed(1)}% ETF mix`
+    : `${plan.annualReturn}%`;
+  return `$${plan.monthlyAmount.toLocaleString()}/${findFrequency(plan.contributionFrequency).unit} at ${rate}, to ${plan.startAge + plan.years}${
+    extras.length ? ` (with ${extras.join(', ')})` : ''
+  }`;
 };
 
+/** Paid in less withdrawn: the stacked view's base layer, so the layers still add up to the balance. */
+const stillInvested = (row: ProjectionYear): number => Math.max(0, row.contributed - row.withdrawn);
+
+/** Yearly projection row plus any overlay series plotted alongside it. */
+type ChartRow = ProjectionYear &
+  Partial<PercentileBand> & {
+    historical?: number;
+    delayed?: number;
+    /** Total after the stress-test crash. */
+    stressed?: number;
+    /** 10th to 90th percentile, drawn as one shaded band. */
+    percentileRange?: [number, number];
+    /** Percent of `total` that came from growth; only in the growth-share chart view. */
+    growthShare?: number;
+    /**
+     * Stacked view: what's still invested, the growth on top of it (floored at 0), and the band from `total` up to
+     * what's invested when the balance has fallen below it.
+     */
+    stackInvested?: number;
+    stackGrowth?: number;
+    lossBand?: [number, number];
+    /** Pinned scenario totals keyed by scenario id. */
+    scenarios?: Record<string, number | undefined>;
+  };
+
 type KidsWealthBlueprintProps = {
   pdfExportRef: React.MutableRefObject<(() => Promise<void>) | null>;
 };
@@ -99,6 +232,10 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
   const [startAge, setStartAge] = useState(5);
   const [initialInvestment, setInitialInvestment] = useState(0);
   const [monthlyAmount, setMonthlyAmount] = useState(50);
+  // Pay cycle for the amount above (it is per payment), and how the return compounds
+  const [contributionFrequency, setContributionFrequency] = useState<ContributionFrequency>('monthly');
+  const [compounding, setCompounding] = useState<CompoundingConvention>('monthly');
+  const frequency = findFrequency(contributionFrequency);
   const [annualReturn, setAnnualReturn] = useState(8.0);
   const [targetAge, setTargetAge] = useState(18);
 
@@ -112,38 +249,427 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
   
   // Advanced contribution schedule (collapsible)
   const [showAdvancedContributions, setShowAdvancedContributions] = useState(false);
-  const [contributionSchedule, setContributionSchedule] = useState<Array<{ age: number; amount: number }>>([]);
+  const [contributionSchedule, setContributionSchedule] = useState<ScheduleEntry[]>([]);
   const [focusedContributionIndex, setFocusedContributionIndex] = useState<number | null>(null);
   
+  // Investment fees (% of balance + fixed $ per year)
+  const [fees, setFees] = useState<PotFees>({ feePercent: 0, fixedFeeAnnual: 0 });
+
+  // Dividend yield split out of the return, reinvested or taken as cash
+  const [showDividends, setShowDividends] = useState(false);
+  const [dividendSettings, setDividendSettings] = useState<DividendSettings>({ yieldPercent: 2, reinvest: true });
+
+  // ETF building blocks blended into the return
+  const [showPortfolio, setShowPortfolio] = useState(false);
+  const [portfolio, setPortfolio] = useState<PortfolioSettings>({ blocks: DEFAULT_PORTFOLIO_BLOCKS, rebalance: true });
+
+  // Crash stress test: a one-off fall at a chosen age, drawn against the plan
+  const [showStressTest, setShowStressTest] = useState(false);
+  const [crash, setCrash] = useState<MarketShock>({ age: 12, fallPercent: 35, recoveryYears: 3 });
+
+  // Glide path: returns that step down with age
+  const [showGlidePath, setShowGlidePath] = useState(false);
+  const [glidePath, setGlidePath] = useState<GlidePathSettings>({
+    mode: 'lifecycle',
+    deRiskAge: 40,
+    finalReturn: 5.5,
+    stepYears: 10,
+    bands: [],
+  });
+
+  // Goal solver: required monthly amount, return or age for a target balance/income
+  const [showGoalSolver, setShowGoalSolver] = useState(false);
+  const [goal, setGoal] = useState<GoalSettings>({
+    targetKind: 'balance',
+    target: 100000,
+    withdrawalRate: 4,
+    solveFor: 'monthly',
+  });
+
+  // Cost of waiting: the same plan started N years later
+  const [delayYears, setDelayYears] = useState(3);
+  const [showDelayLine, setShowDelayLine] = useState(false);
+
+  // Pinned plans drawn next to the live one
+  const [scenarios, setScenarios] = useState<Array<PinnedScenario<KidsPlan>>>([]);
+
+  // Dated one-off deposits and withdrawals
+  const [lumpSums, setLumpSums] = useState<ProjectionEvent[]>([]);
+
+  // Automatic yearly increase in the monthly amount
+  const [showIndexation, setShowIndexation] = useState(false);
+  const [indexation, setIndexation] = useState<ContributionIndexation>({ ratePercent: 3, capMonthly: 0 });
+
+  // Monte Carlo: seeded random returns with percentile bands
+  const [showMonteCarlo, setShowMonteCarlo] = useState(false);
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>({
+    meanReturn: 8,
+    volatility: 15,
+    paths: 2000,
+    seed: 20240601,
+  });
+  const [targetBalance, setTargetBalance] = useState(100000);
+
+  // Historical replay over every start year in the bundled index data
+  const [showBacktest, setShowBacktest] = useState(false);
+  const [backtestIndexId, setBacktestIndexId] = useState('broad');
+  const [backtestOverlayYear, setBacktestOverlayYear] = useState<number | null>(null);
+
+  // Nominal vs today's dollars
+  const [valueBasis, setValueBasis] = useState<ValueBasis>('nominal');
+  const [inflationRate, setInflationRate] = useState(2.5);
+
+  // How the main chart draws the balance (lines, stacked, log scale or % from growth)
+  const [chartMode, setChartMode] = useState<ChartMode>('lines');
+
+  // Every year as an accessible table under the chart
+  const [showYearTable, setShowYearTable] = useState(false);
+
   // Educational section (collapsible)
   const [showEducationalSection, setShowEducationalSection] = useState(false);
   
   // Why This Matters section (collapsible)
   const [showWhyThisMatters, setShowWhyThisMatters] = useState(false);
   
-  // Reset contribution schedule when opening the advanced section
+  // Closing the advanced section switches the schedule off; reopening brings the same entries back
   const handleToggleAdvancedContributions = () => {
-    if (!showAdvancedContributions) {
-      // Opening - reset to empty
-      setContributionSchedule([]);
-      setFocusedContributionIndex(null);
-    }
+    setFocusedContributionIndex(null);
     setShowAdvancedContributions(!showAdvancedContributions);
   };
 
-  // Calculate chart data
-  const chartData = useMemo(() => {
+  // Engine input for the current settings, then chart data (nominal) expressed in the chosen value basis
+  const portfolioBlend = useMemo(() => blendPortfolio(portfolio.blocks), [portfolio]);
+  const returnSchedule = useMemo(
+    () => (showGlidePath ? glidePathSchedule(glidePath, annualReturn) : undefined),
+    [showGlidePath, glidePath, annualReturn]
+  );
+  const portfolioDrift = useMemo(
+    () => driftedWeights(portfolio.blocks, Math.max(0, targetAge - startAge)),
+    [portfolio, targetAge, startAge]
+  );
+  // Return shown on the slider and used to cap the dividend yield
+  const effectiveReturn = showPortfolio ? Number(portfolioBlend.annualReturn.toFixed(2)) : annualReturn;
+
+  const kidsPlan = useMemo<KidsPlan>(() => {
     const years = Math.max(1, targetAge - startAge);
     // Use contribution schedule only if advanced section is open and has entries
     const schedule = showAdvancedContributions && contributionSchedule.length > 0 
       ? contributionSchedule 
       : undefined;
-    return calculateCompound(startAge, monthlyAmount, years, annualReturn, initialInvestment, schedule);
-  }, [startAge, monthlyAmount, annualReturn, targetAge, initialInvestment, showAdvancedContributions, contributionSchedule]);
+    return {
+      startAge,
+      years,
+      annualReturn,
+      portfolio: showPortfolio ? portfolio : undefined,
+      returnSchedule,
+      initialInvestment,
+      monthlyAmount,
+      contributionSchedule: schedule,
+      fees,
+      dividendYield: showDividends ? Math.min(dividendSettings.yieldPercent, effectiveReturn) : undefined,
+      payOutDividends: showDividends && !dividendSettings.reinvest,
+      indexation: showIndexation ? indexation : undefined,
+      events: lumpSums,
+      contributionFrequency,
+      compounding,
+    };
+  }, [
+    startAge,
+    monthlyAmount,
+    annualReturn,
+    showPortfolio,
+    portfolio,
+    returnSchedule,
+    effectiveReturn,
+    targetAge,
+    initialInvestment,
+    showAdvancedContributions,
+    contributionSchedule,
+    fees,
+    showDividends,
+    dividendSettings,
+    showIndexation,
+    indexation,
+    lumpSums,
+    contributionFrequency,
+    compounding,
+  ]);
+  const projectionInput = useMemo(() => buildKidsProjection(kidsPlan), [kidsPlan]);
+  // Amount per payment in year one vs the final year, ignoring breaks
+  const indexationExamples = useMemo(
+    () =>
+      projectionInput.pots.map((pot) => ({
+        label: pot.label,
+        from: fromMonthlyAmount(contributionAtAge({ ...pot, breaks: undefined }, startAge), contributionFrequency),
+        to: fromMonthlyAmount(
+          contributionAtAge({ ...pot, breaks: undefined }, targetAge - 1 / 12, Math.max(0, targetAge - startAge - 1)),
+          contributionFrequency
+        ),
+      })),
+    [projectionInput, startAge, targetAge, contributionFrequency]
+  );
+  const projection = useMemo(() => runProjectionWithFeeDrag(projectionInput), [projectionInput]);
+  // Return in force at each age for the chart tooltip
+  const describeReturnAt = useCallback(
+    (age: number) => `${Number(returnInForce(projectionInput, projectionInput.pots[0], age).toFixed(2))}% return`,
+    [projectionInput]
+  );
+  const nominalChartData = projection.yearly;
+  const chartData = useMemo(
+    () => applyValueBasis(nominalChartData, valueBasis, startAge, inflationRate),
+    [nominalChartData, valueBasis, startAge, inflationRate]
+  );
 
   const finalAmount = chartData[chartData.length - 1]?.total || 0;
   const totalContributed = chartData[chartData.length - 1]?.contributed || 0;
   const totalGrowth = chartData[chartData.length - 1]?.growth || 0;
+  const totalWithdrawn = chartData[chartData.length - 1]?.withdrawn || 0;
+  const feeSummary = useMemo(() => summariseFees(chartData), [chartData]);
+  const totalDividends = chartData[chartData.length - 1]?.dividends || 0;
+  const passiveIncome = chartData.length > 0 ? annualDividendIncome(chartData[chartData.length - 1], projectionInput.pots) : 0;
+
+  // Thousands of full projections: run them on deferred inputs so typing stays responsive, then catch up
+  const deferredMonteCarloInput = useDeferredValue(showMonteCarlo ? projectionInput : null);
+  const deferredMonteCarloSettings = useDeferredValue(monteCarloSettings);
+  const monteCarlo = useMemo(
+    () => (deferredMonteCarloInput ? runMonteCarlo(deferredMonteCarloInput, deferredMonteCarloSettings) : null),
+    [deferredMonteCarloInput, deferredMonteCarloSettings]
+  );
+  const monteCarloPending =
+    showMonteCarlo &&
+    (deferredMonteCarloInput !== projectionInput || deferredMonteCarloSettings !== monteCarloSettings);
+  const monteCarloBands = useMemo(() => {
+    if (!monteCarlo) return null;
+    return valueBasis === 'real'
+      ? deflateFields(monteCarlo.bands, ['p10', 'p50', 'p90'], startAge, inflationRate)
+      : monteCarlo.bands;
+  }, [monteCarlo, valueBasis, startAge, inflationRate]);
+  // Target is entered in the displayed basis; compare against nominal path finals
+  const targetProbability = useMemo(() => {
+    if (!monteCarlo) return 0;
+    const nominalTarget =
+      valueBasis === 'real' ? targetBalance * deflationFactor(targetAge, startAge, inflationRate) : targetBalance;
+    return probabilityOfReaching(monteCarlo.finals, nominalTarget);
+  }, [monteCarlo, targetBalance, valueBasis, targetAge, startAge, inflationRate]);
+
+  const backtest = useMemo(
+    () => (showBacktest ? runBacktest(projectionInput, findHistoricalIndex(backtestIndexId)) : null),
+    [showBacktest, projectionInput, backtestIndexId]
+  );
+  const backtestOverlay = backtest ? findOutcome(backtest, backtestOverlayYear) : null;
+
+  // Same plan started later, in the displayed basis (deflated from today, not from the later start)
+  const maxDelayYears = Math.max(1, targetAge - startAge - 1);
+  const effectiveDelayYears = Math.min(delayYears, maxDelayYears);
+  const delayedRows = useMemo(
+    () =>
+      applyValueBasis(
+        runProjection(delayedStart(projectionInput, effectiveDelayYears), { monthly: false }).yearly,
+        valueBasis,
+        startAge,
+        inflationRate
+      ),
+    [projectionInput, effectiveDelayYears, valueBasis, startAge, inflationRate]
+  );
+  // Same plan with the crash applied, in the displayed basis
+  const crashAge = Math.max(startAge + 1, Math.min(targetAge, crash.age));
+  const stressedRows = useMemo(
+    () =>
+      showStressTest
+        ? applyValueBasis(
+            runProjection({ ...projectionInput, marketShocks: [{ ...crash, age: crashAge }] }, { monthly: false }).yearly,
+            valueBasis,
+            startAge,
+            inflationRate
+          )
+        : null,
+    [showStressTest, projectionInput, crash, crashAge, valueBasis, startAge, inflationRate]
+  );
+  const stressSummary = useMemo(
+    () => (stressedRows ? summariseStressTest(chartData, stressedRows, crashAge) : null),
+    [chartData, stressedRows, crashAge]
+  );
+  const costOfWaiting = useMemo(
+    () => summariseCostOfWaiting(chartData, delayedRows, effectiveDelayYears),
+    [chartData, delayedRows, effectiveDelayYears]
+  );
+  const toDisplayBasis = useCallback(
+    (amount: number, age: number) =>
+      valueBasis === 'real' ? Math.round(toTodaysDollars(amount, age, startAge, inflationRate)) : amount,
+    [valueBasis, startAge, inflationRate]
+  );
+  // Each year's opening balance, contributions, growth and closing balance, for the table view
+  const yearFlows = useMemo(
+    () => yearlyFlowsInBasis(nominalChartData, valueBasis, startAge, inflationRate),
+    [nominalChartData, valueBasis, startAge, inflationRate]
+  );
+
+  // Milestone flags and contribution-change markers; drawn in the chart SVG so the PDF snapshot keeps them
+  const milestones = useMemo(() => findMilestones(chartData), [chartData]);
+  const scheduleMarkers = useMemo(
+    () =>
+      showAdvancedContributions
+        ? contributionSteps(monthlyAmount, contributionSchedule).filter(
+            (step) => step.age > startAge && step.age < targetAge
+          )
+        : [],
+    [showAdvancedContributions, monthlyAmount, contributionSchedule, startAge, targetAge]
+  );
+  // Chart dots for each lump sum, at the balance just after it lands
+  const lumpSumMarkers = useMemo(
+    () =>
+      projection.events.map((e) => {
+        const month = Math.max(0, Math.round((e.age - startAge) * 12));
+        return { ...e, total: toDisplayBasis(projection.monthly[month]?.total ?? 0, e.age) };
+      }),
+    [projection, startAge, toDisplayBasis]
+  );
+
+  // Each pinned plan runs in full; all are deflated from the current plan's start age so they share one "today"
+  const scenarioRuns = useMemo(
+    () =>
+      scenarios.map((scenario) => ({
+        ...scenario,
+        rows: applyValueBasis(
+          runProjection(buildKidsProjection(scenario.plan), { monthly: false }).yearly,
+          valueBasis,
+          startAge,
+          inflationRate
+        ),
+      })),
+    [scenarios, valueBasis, startAge, inflationRate]
+  );
+  const currentOutcome = useMemo<ScenarioOutcome>(
+    () => ({
+      id: 'current',
+      name: 'Current plan',
+      colour: '#2563eb',
+      description: describeKidsPlan(kidsPlan),
+      endAge: targetAge,
+      total: finalAmount,
+      contributed: totalContributed,
+      growth: totalGrowth,
+    }),
+    [kidsPlan, targetAge, finalAmount, totalContributed, totalGrowth]
+  );
+  const scenarioOutcomes = useMemo<ScenarioOutcome[]>(
+    () =>
+      scenarioRuns.map(({ id, name, colour, description, rows }) => {
+        const last = rows[rows.length - 1];
+        return {
+          id,
+          name,
+          colour,
+          description,
+          endAge: last.age,
+          total: last.total,
+          contributed: last.contributed,
+          growth: last.growth,
+        };
+      }),
+    [scenarioRuns]
+  );
+  const pinScenario = () =>
+    setScenarios((prev) => [
+      ...prev,
+      {
+        id: `scenario-${Date.now()}`,
+        name: nextScenarioName(prev.map((s) => s.name)),
+        colour: nextScenarioColour(prev.map((s) => s.colour)),
+        description: describeKidsPlan(kidsPlan),
+        plan: kidsPlan,
+      },
+    ]);
+
+  // Chart rows with percentile bands and the historical, delayed and scenario overlays merged in by age
+  const plotData = useMemo<ChartRow[]>(() => {
+    // Matched by age: the deferred simulation can briefly cover a different span than the chart
+    const bandAt = (age: number) => {
+      const band = monteCarloBands?.find((b) => b.age === age);
+      if (!band) return undefined;
+      return { p10: band.p10, p50: band.p50, p90: band.p90, percentileRange: [band.p10, band.p90] as [number, number] };
+    };
+    return chartData.map((row, i) => ({
+      ...row,
+      ...bandAt(row.age),
+      historical: backtestOverlay ? toDisplayBasis(backtestOverlay.yearly[i]?.total ?? 0, row.age) : undefined,
+      delayed: showDelayLine ? (i < effectiveDelayYears ? 0 : delayedRows[i - effectiveDelayYears]?.total) : undefined,
+      stressed: stressedRows?.[i]?.total,
+      growthShare:
+        chartMode === 'growthShare' && row.total > 0
+          ? Math.round(Math.max(0, Math.min(100, (row.growth / row.total) * 100)) * 10) / 10
+          : undefined,
+      stackInvested: chartMode === 'stacked' ? stillInvested(row) : undefined,
+      stackGrowth: chartMode === 'stacked' ? Math.max(0, row.total - stillInvested(row)) : undefined,
+      lossBand:
+        chartMode === 'stacked' && row.total < stillInvested(row) ? [row.total, stillInvested(row)] : undefined,
+      scenarios: scenarioRuns.length
+        ? Object.fromEntries(scenarioRuns.map((sc) => [sc.id, sc.rows.find((r) => r.age === row.age)?.total]))
+        : undefined,
+    }));
+  }, [
+    chartData,
+    monteCarloBands,
+    backtestOverlay,
+    toDisplayBasis,
+    showDelayLine,
+    effectiveDelayYears,
+    delayedRows,
+    stressedRows,
+    chartMode,
+    scenarioRuns,
+  ]);
+
+  // Goal is entered in the displayed basis; the monthly and return solves compare nominal finals
+  const goalBalance = Math.round(
+    goal.targetKind === 'income' ? balanceForIncome(goal.target, goal.withdrawalRate) : goal.target
+  );
+  const goalResult = useMemo(() => {
+    if (!showGoalSolver) return null;
+    const nominalGoal = valueBasis === 'real' ? goalBalance * deflationFactor(targetAge, startAge, inflationRate) : goalBalance;
+    if (goal.solveFor === 'monthly') {
+      const monthly = solveForTarget((m) => buildKidsProjection(withMonthlyAmount(kidsPlan, m)), nominalGoal, 0, 1000000, 0.5);
+      return monthly === null ? null : Math.ceil(monthly);
+    }
+    if (goal.solveFor === 'return') {
+      const rate = solveForTarget(
+        (r) => buildKidsProjection({ ...kidsPlan, annualReturn: r, portfolio: undefined, returnSchedule: undefined }),
+        nominalGoal,
+        0,
+        30
+      );
+      return rate === null ? null : Math.ceil(rate * 10) / 10;
+    }
+    const extended = runProjection(buildKidsProjection({ ...kidsPlan, years: FUTURE_AGE_MAX - startAge }), { monthly: false });
+    const age = ageReachingTarget(applyValueBasis(extended.yearly, valueBasis, startAge, inflationRate), goalBalance);
+    return age === null ? null : Math.max(startAge + 1, Math.round(age));
+  }, [showGoalSolver, goal.solveFor, goalBalance, kidsPlan, valueBasis, targetAge, startAge, inflationRate]);
+
+  // Switching pay cycle keeps each amount's yearly total
+  const handleFrequencyChange = (next: ContributionFrequency) => {
+    const convert = (amount: number) => convertAmount(amount, contributionFrequency, next);
+    setMonthlyAmount(convert(monthlyAmount));
+    setContributionSchedule((prev) => prev.map((e) => ({ age: e.age, amount: convert(e.amount) })));
+    setIndexation((prev) => ({ ...prev, capMonthly: convert(prev.capMonthly) }));
+    setContributionFrequency(next);
+  };
+
+  const applyGoalResult = () => {
+    if (goalResult === null) return;
+    if (goal.solveFor === 'monthly') {
+      const solved = withMonthlyAmount(kidsPlan, goalResult);
+      setMonthlyAmount(goalResult);
+      if (showAdvancedContributions) {
+        setContributionSchedule(solved.contributionSchedule?.map((e) => ({ age: e.age, amount: Math.ceil(e.amount) })) ?? []);
+      }
+    } else if (goal.solveFor === 'return') {
+      setAnnualReturn(goalResult);
+      setShowPortfolio(false);
+      setShowGlidePath(false);
+    } else {
+      setTargetAge(goalResult);
+    }
+  };
 
   const runPdfExport = useCallback(async () => {
     try {
@@ -155,11 +681,65 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
         targetAge,
         initialInvestment,
         monthlyAmount,
-        annualReturn,
+        contributionFrequency,
+        annualReturn: effectiveReturn,
+        compounding,
         finalAmount,
         totalContributed,
         totalGrowth,
+        totalWithdrawn,
+        fees,
+        feeSummary,
+        // The yield the projection used: capped at the return
+        dividends: showDividends
+          ? {
+              ...dividendSettings,
+              yieldPercent: Math.min(dividendSettings.yieldPercent, effectiveReturn),
+              totalDividends,
+              passiveIncome,
+            }
+          : null,
+        returnSchedule: returnSchedule ?? [],
+        portfolio: showPortfolio
+          ? {
+              blocks: portfolio.blocks.map((b, i) => ({ ...b, colour: blockColour(b, i) })),
+              rebalance: portfolio.rebalance,
+              blend: portfolioBlend,
+              driftedAtTarget: portfolioDrift,
+            }
+          : null,
         chartData,
+        monteCarlo: monteCarloBands
+          ? { settings: monteCarloSettings, bands: monteCarloBands, targetBalance, probability: targetProbability }
+          : null,
+        backtest:
+          backtest && backtest.worst && backtest.median && backtest.best
+            ? {
+                indexLabel: backtest.index.label,
+                startYears: backtest.outcomes.length,
+                worst: { startYear: backtest.worst.startYear, final: toDisplayBasis(backtest.worst.final.total, targetAge) },
+                median: { startYear: backtest.median.startYear, final: toDisplayBasis(backtest.median.final.total, targetAge) },
+                best: { startYear: backtest.best.startYear, final: toDisplayBasis(backtest.best.final.total, targetAge) },
+                overlayYear: backtestOverlay?.startYear ?? null,
+              }
+            : null,
+        indexation: showIndexation ? indexation : null,
+        lumpSums: projection.events.map((e) => ({
+          age: e.age,
+          potLabel: 'Investment',
+          label: e.label ?? '',
+          amount: e.amount,
+          shortfall: e.shortfall,
+        })),
+        goal: showGoalSolver ? { ...goal, requiredBalance: goalBalance, result: goalResult } : null,
+        costOfWaiting,
+        showDelayLine,
+        stressTest: stressSummary ? { ...crash, ...stressSummary } : null,
+        milestones,
+        scenarios: scenarioOutcomes.length > 0 ? [currentOutcome, ...scenarioOutcomes] : [],
+        valueBasis,
+        inflationRate,
+        chartMode,
         showAdvancedContributions,
         contributionSchedule,
         chartImageDataUrl,
@@ -170,15 +750,53 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
       window.alert('Could not create the PDF. Please try again.');
     }
   }, [
+    showGoalSolver,
+    goal,
+    goalBalance,
+    goalResult,
+    costOfWaiting,
+    showDelayLine,
+    crash,
+    stressSummary,
+    milestones,
+    currentOutcome,
+    scenarioOutcomes,
+    projection,
+    showIndexation,
+    indexation,
     startAge,
     targetAge,
     initialInvestment,
     monthlyAmount,
-    annualReturn,
+    contributionFrequency,
+    effectiveReturn,
+    compounding,
     finalAmount,
     totalContributed,
     totalGrowth,
+    totalWithdrawn,
+    fees,
+    feeSummary,
+    showDividends,
+    dividendSettings,
+    totalDividends,
+    passiveIncome,
+    returnSchedule,
+    showPortfolio,
+    portfolio,
+    portfolioBlend,
+    portfolioDrift,
     chartData,
+    monteCarloBands,
+    monteCarloSettings,
+    targetBalance,
+    targetProbability,
+    backtest,
+    backtestOverlay,
+    toDisplayBasis,
+    valueBasis,
+    inflationRate,
+    chartMode,
     showAdvancedContributions,
     contributionSchedule,
   ]);
@@ -190,112 +808,29 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
     };
   }, [pdfExportRef, runPdfExport]);
 
-  // Calculate max value for Y-axis - find true max across all series, then snap to first nice step above
-  const maxValue = useMemo(() => {
-    if (chartData.length === 0) return 100000; // Default if no data
-    
-    // Find the true maximum across all series (Total Value and Amount Invested)
-    const max = Math.max(...chartData.map(d => Math.max(d.total, d.contributed)));
-    
-    if (max === 0) return 100000;
-    
-    // Choose a "nice" step size based on magnitude
-    let step: number;
-    
-    if (max >= 1000000) {
-      // For millions, use 100k, 200k, 500k, or 1M steps
-      if (max < 2000000) step = 200000;      // 0.2M steps
-      else if (max < 5000000) step = 500000;  // 0.5M steps
-      else if (max < 10000000) step = 1000000; // 1M steps
-      else if (max < 20000000) step = 2000000; // 2M steps
-      else if (max < 50000000) step = 5000000; // 5M steps
-      else step = 10000000;                     // 10M steps
-    } else if (max >= 100000) {
-      // For hundreds of thousands, use 10k or 20k steps
-      step = 10000; // Default to 10k
-      const numTicksWith10k = Math.ceil(max / 10000);
-      if (numTicksWith10k > 12) {
-        step = 20000; // Use 20k if too many ticks
-      }
-    } else if (max >= 10000) {
-      // For tens of thousands, use 2k, 5k, or 10k steps
-      if (max < 20000) step = 2000;
-      else if (max < 50000) step = 5000;
-      else step = 10000;
-    } else if (max >= 1000) {
-      // For thousands, use 500, 1k, or 2k steps
-      if (max < 2000) step = 500;
-      else if (max < 5000) step = 1000;
-      else step = 2000;
-    } else if (max >= 100) {
-      // For hundreds, use 50, 100, or 200 steps
-      if (max < 200) step = 50;
-      else if (max < 500) step = 100;
-      else step = 200;
-    } else {
-      // For smaller values, use 10, 20, or 50 steps
-      if (max < 20) step = 10;
-      else if (max < 50) step = 20;
-      else step = 50;
-    }
-    
-    // Snap to first step ABOVE max value (no padding factor)
-    const yMax = Math.ceil(max / step) * step;
-    
-    return yMax;
-  }, [chartData]);
-
-  // Calculate Y-axis ticks using the same step size logic as maxValue
-  const yAxisTicks = useMemo(() => {
-    if (maxValue === 0) return [0, 100000];
-    
-    // Determine step size based on maxValue (same logic as maxValue calculation)
-    let step: number;
-    
-    if (maxValue >= 1000000) {
-      if (maxValue < 2000000) step = 200000;
-      else if (maxValue < 5000000) step = 500000;
-      else if (maxValue < 10000000) step = 1000000;
-      else if (maxValue < 20000000) step = 2000000;
-      else if (maxValue < 50000000) step = 5000000;
-      else step = 10000000;
-    } else if (maxValue >= 100000) {
-      step = 10000;
-      const numTicks = Math.ceil(maxValue / 10000);
-      if (numTicks > 12) {
-        step = 20000;
-      }
-    } else if (maxValue >= 10000) {
-      if (maxValue < 20000) step = 2000;
-      else if (maxValue < 50000) step = 5000;
-      else step = 10000;
-    } else if (maxValue >= 1000) {
-      if (maxValue < 2000) step = 500;
-      else if (maxValue < 5000) step = 1000;
-      else step = 2000;
-    } else if (maxValue >= 100) {
-      if (maxValue < 200) step = 50;
-      else if (maxValue < 500) step = 100;
-      else step = 200;
-    } else {
-      if (maxValue < 20) step = 10;
-      else if (maxValue < 50) step = 20;
-      else step = 50;
-    }
-    
-    // Generate ticks from 0 to maxValue using the step
-    const ticks = [0];
-    let current = step;
-    while (current <= maxValue) {
-      ticks.push(current);
-      current += step;
-    }
-    // Ensure maxValue is always included (it should be, but double-check)
-    if (ticks[ticks.length - 1] !== maxValue) {
-      ticks.push(maxValue);
-    }
-    return ticks;
-  }, [maxValue]);
+  // Every dollar value plotted against the left axis, to size it
+  const axisValues = useMemo(
+    () =>
+      plotData.flatMap((d) => [
+        d.total,
+        d.contributed,
+        d.p90 ?? 0,
+        d.historical ?? 0,
+        d.delayed ?? 0,
+        d.stressed ?? 0,
+        d.dividends ?? 0,
+        ...Object.values(d.scenarios ?? {}).map((v) => v ?? 0),
+      ]),
+    [plotData]
+  );
+
+  // Y-axis top snapped to the first nice step above the largest value; log view uses powers of ten instead
+  const maxValue = useMemo(() => niceAxisMax(Math.max(0, ...axisValues)), [axisValues]);
+  const yAxisTicks = useMemo(
+    () => (chartMode === 'log' ? logAxisTicks(axisValues) : niceAxisTicks(maxValue)),
+    [chartMode, axisValues, maxValue]
+  );
+  const chartRows = useMemo(() => (chartMode === 'log' ? forLogScale(plotData) : plotData), [chartMode, plotData]);
 
   return (
     <div className="min-h-screen animated-gradient relative overflow-hidden">
@@ -526,7 +1061,7 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
 
             <div className="bg-white/90 backdrop-blur-sm rounded-xl p-4 sm:p-6 shadow-lg border-2 border-blue-200 overflow-hidden card-interactive ripple-effect flex flex-col">
               <label className="block text-sm sm:text-base font-bold text-gray-800 mb-1 min-h-[2.5rem]">
-                💵 Money added each month
+                💵 Money added each {frequency.unit}
               </label>
               <p className="text-xs text-gray-500 mb-2">Saved or invested with a grown-up&apos;s help — try small amounts too</p>
               <input
@@ -581,7 +1116,7 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                 >
                   <span className="flex items-center gap-2">
                     <span>⚙️</span>
-                    <span>Change the monthly amount at different ages?</span>
+                    <span>Change the amount at different ages?</span>
                   </span>
                   <span className={`transform transition-transform duration-200 ${showAdvancedContributions ? 'rotate-180' : ''}`}>
                     ▼
@@ -750,22 +1285,28 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                   <span className="text-green-600 text-base sm:text-lg animate-bounce">↓</span>
                 </div>
                 <div className="text-sm sm:text-base font-bold text-gray-800">(% per year)</div>
-                <p className="text-xs sm:text-sm text-green-700 font-medium mt-1 italic">Higher % = faster growth in this pretend example. Learn more below ↓</p>
+                <p className="text-xs sm:text-sm text-green-700 font-medium mt-1 italic">
+                  {showPortfolio
+                    ? 'Set by the portfolio mix below ↓'
+                    : 'Higher % = faster growth in this pretend example. Learn more below ↓'}
+                </p>
               </label>
               <input
                 type="range"
                 min="5"
                 max="20"
                 step="0.5"
-                value={annualReturn}
+                value={effectiveReturn}
+                disabled={showPortfolio}
                 onChange={(e) => setAnnualReturn(Number(e.target.value))}
-                className="w-full h-4 bg-green-200 rounded-lg appearance-none cursor-pointer accent-green-600 mb-3 transition-all duration-300 hover:accent-green-700"
+                className="w-full h-4 bg-green-200 rounded-lg appearance-none cursor-pointer accent-green-600 mb-3 transition-all duration-300 hover:accent-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
               />
               <div className="flex items-center gap-2 w-full min-w-0">
                 <span className="text-sm text-gray-500 flex-shrink-0 w-4"></span>
                 <input
                   type="text"
-                  value={annualReturn}
+                  value={effectiveReturn}
+                  disabled={showPortfolio}
                   onChange={(e) => {
                     const numericValue = e.target.value.replace(/[^0-9.]/g, '');
                     if (numericValue === '') {
@@ -786,7 +1327,7 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                       e.currentTarget.blur();
                     }
                   }}
-                  className="flex-1 min-w-0 text-xl sm:text-2xl font-bold text-green-600 text-center border-2 border-green-300 rounded-lg py-2 px-2 h-12 focus:outline-none focus:ring-2 focus:ring-green-500 input-interactive"
+                  className="flex-1 min-w-0 text-xl sm:text-2xl font-bold text-green-600 text-center border-2 border-green-300 rounded-lg py-2 px-2 h-12 focus:outline-none focus:ring-2 focus:ring-green-500 input-interactive disabled:opacity-50"
                 />
                 <span className="text-sm text-gray-500 flex-shrink-0">%</span>
               </div>
@@ -936,9 +1477,18 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                           In this educational chart — from age <strong>{startAge}</strong> to future age{' '}
                           <strong>{targetAge}</strong> — the blue line shows about{' '}
                           <strong className="text-green-700">${finalAmount.toLocaleString()}</strong> with your current
-                          settings (${monthlyAmount.toLocaleString()}/month at {annualReturn}% per year). That helps
+                          settings (${monthlyAmount.toLocaleString()}/{frequency.unit} at {annualReturn}% per year). That helps
                           illustrate what steady saving and growth could look like over that timeline.
                         </p>
+                        <p className="mt-2">
+                          Waiting matters too: starting the same plan{' '}
+                          <strong>
+                            {costOfWaiting.delayYears} {costOfWaiting.delayYears === 1 ? 'year' : 'years'}
+                          </strong>{' '}
+                          later would reach about ${costOfWaiting.delayedTotal.toLocaleString()} —{' '}
+                          <strong className="text-rose-700">${costOfWaiting.cost.toLocaleString()} less</strong>, just
+                          from missing those early years.
+                        </p>
                       </div>
 
                       <div className="bg-amber-50 border-l-4 border-amber-400 rounded-r-lg p-2.5 sm:p-3">
@@ -956,14 +1506,145 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
             </div>
           </div>
 
+          <ValueBasisControl
+            basis={valueBasis}
+            onBasisChange={setValueBasis}
+            inflationRate={inflationRate}
+            onInflationRateChange={setInflationRate}
+          />
+          <ChartModeControl mode={chartMode} onModeChange={setChartMode} />
+          <FrequencyControls
+            frequency={contributionFrequency}
+            onFrequencyChange={handleFrequencyChange}
+            compounding={compounding}
+            onCompoundingChange={setCompounding}
+          />
+          <GoalSolverControls
+            enabled={showGoalSolver}
+            onEnabledChange={setShowGoalSolver}
+            goal={goal}
+            onGoalChange={setGoal}
+            requiredBalance={goalBalance}
+            result={goalResult}
+            onApply={applyGoalResult}
+            targetAge={targetAge}
+            maxAge={FUTURE_AGE_MAX}
+            contributionUnit={frequency.unit}
+          />
+          <CostOfWaitingControls
+            delayYears={effectiveDelayYears}
+            onDelayYearsChange={setDelayYears}
+            maxDelayYears={maxDelayYears}
+            showOnChart={showDelayLine}
+            onShowOnChartChange={setShowDelayLine}
+            summary={costOfWaiting}
+            targetAge={targetAge}
+          />
+          <ScenarioControls
+            current={currentOutcome}
+            pinned={scenarioOutcomes}
+            onPin={pinScenario}
+            onRename={(id, name) => setScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)))}
+            onRemove={(id) => setScenarios((prev) => prev.filter((s) => s.id !== id))}
+          />
+          <IndexationControls
+            enabled={showIndexation}
+            onEnabledChange={setShowIndexation}
+            indexation={indexation}
+            onIndexationChange={setIndexation}
+            examples={indexationExamples}
+            targetAge={targetAge}
+            unit={frequency.unit}
+          />
+          <LumpSumControls
+            events={lumpSums}
+            onEventsChange={setLumpSums}
+            pots={[{ id: 'kids', label: 'Investment' }]}
+            applied={projection.events}
+            startAge={startAge}
+            targetAge={targetAge}
+          />
+          <FeeControls
+            pots={[{ id: 'kids', label: 'Investment', fees }]}
+            onChange={(_, next) => setFees(next)}
+            summary={feeSummary}
+            targetAge={targetAge}
+          />
+          <StressTestControls
+            enabled={showStressTest}
+            onEnabledChange={setShowStressTest}
+            crash={crash}
+            onCrashChange={setCrash}
+            startAge={startAge}
+            targetAge={targetAge}
+            summary={stressSummary}
+          />
+          <GlidePathControls
+            enabled={showGlidePath}
+            onEnabledChange={setShowGlidePath}
+            settings={glidePath}
+            onSettingsChange={setGlidePath}
+            growthReturn={annualReturn}
+            startAge={startAge}
+            targetAge={targetAge}
+            note={showPortfolio ? 'The portfolio mix below sets the return while it is switched on.' : undefined}
+          />
+          <PortfolioControls
+            enabled={showPortfolio}
+            onEnabledChange={setShowPortfolio}
+            settings={portfolio}
+            onSettingsChange={setPortfolio}
+            blend={portfolioBlend}
+            driftedAtTarget={portfolioDrift}
+            targetAge={targetAge}
+            appliesTo="this investment"
+          />
+          <DividendControls
+            enabled={showDividends}
+            onEnabledChange={setShowDividends}
+            settings={dividendSettings}
+            onSettingsChange={setDividendSettings}
+            maxYield={effectiveReturn}
+            annualReturn={effectiveReturn}
+            totalDividends={totalDividends}
+            passiveIncome={passiveIncome}
+            targetAge={targetAge}
+          />
+          <MonteCarloControls
+            enabled={showMonteCarlo}
+            onEnabledChange={setShowMonteCarlo}
+            settings={monteCarloSettings}
+            onSettingsChange={setMonteCarloSettings}
+            targetBalance={targetBalance}
+            onTargetBalanceChange={setTargetBalance}
+            probability={targetProbability}
+            targetAge={targetAge}
+            pending={monteCarloPending}
+          />
+          <BacktestControls
+            enabled={showBacktest}
+            onEnabledChange={setShowBacktest}
+            indexId={backtestIndexId}
+            onIndexChange={setBacktestIndexId}
+            result={backtest}
+            overlayYear={backtestOverlayYear}
+            onOverlayYearChange={setBacktestOverlayYear}
+            displayFinal={(o) => toDisplayBasis(o.final.total, o.final.age)}
+            targetAge={targetAge}
+          />
+
           {/* Chart */}
           <div
             ref={chartForPdfRef}
             className="bg-white/90 backdrop-blur-sm rounded-xl p-2 sm:p-3 shadow-lg mb-8 w-full card-interactive relative"
           >
+            <p className="sr-only">
+              Chart of the example balance by age. The year-by-year table after the chart lists the same figures
+              for every year.
+            </p>
             <ResponsiveContainer width="100%" height={isMobile ? 400 : 550}>
-              <LineChart 
-                data={chartData} 
+              <ComposedChart 
+                data={chartRows} 
                 margin={isMobile ? { top: 20, right: 15, left: 45, bottom: 30 } : { top: 38, right: 38, left: 38, bottom: 38 }}
               >
                 <CartesianGrid 
@@ -988,8 +1669,9 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                   interval="preserveStartEnd"
                 />
                 <YAxis
-                  scale="linear"
-                  domain={[0, maxValue]}
+                  scale={chartMode === 'log' ? 'log' : 'linear'}
+                  domain={chartMode === 'log' ? [yAxisTicks[0], yAxisTicks[yAxisTicks.length - 1]] : [0, maxValue]}
+                  allowDataOverflow={chartMode === 'log'}
                   stroke="#111827"
                   strokeWidth={isMobile ? 1.5 : 2}
                   tick={{ 
@@ -1010,9 +1692,31 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                     return `$${value.toLocaleString()}`;
                   }}
                 />
+                {chartMode === 'growthShare' && (
+                  <YAxis
+                    yAxisId="share"
+                    orientation="right"
+                    domain={[0, 100]}
+                    ticks={[0, 25, 50, 75, 100]}
+                    stroke="#4d7c0f"
+                    tick={{ fontSize: isMobile ? 11 : 14, fill: '#4d7c0f', fontWeight: 700 }}
+                    width={isMobile ? 36 : 48}
+                    tickFormatter={(value: number) => `${value}%`}
+                  />
+                )}
                 <Tooltip
-                  formatter={(value: number) => `$${value.toLocaleString()}`}
-                  labelFormatter={(label) => `Age ${label}`}
+                  formatter={(value: number | number[], _name, item) =>
+                    Array.isArray(value)
+                      ? item.dataKey === 'lossBand'
+                        ? `−$${(value[1] - value[0]).toLocaleString()}`
+                        : `$${value[0].toLocaleString()} – $${value[1].toLocaleString()}`
+                      : item.dataKey === 'growthShare'
+                        ? `${value}%`
+                        : `$${value.toLocaleString()}`
+                  }
+                  labelFormatter={(label) =>
+                    Number(label) <= targetAge ? `Age ${label} · ${describeReturnAt(Number(label))}` : `Age ${label}`
+                  }
                   contentStyle={{ 
                     backgroundColor: '#fff', 
                     border: '2px solid #3b82f6', 
@@ -1039,25 +1743,226 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                   iconType="line"
                   iconSize={isMobile ? 15 : 20}
                 />
-                <Line
-                  type="monotone"
-                  dataKey="total"
-                  name="Total Value"
-                  stroke="#2563eb"
-                  strokeWidth={isMobile ? 3 : 5}
-                  dot={false}
-                  activeDot={{ r: isMobile ? 6 : 10, fill: '#2563eb', strokeWidth: 3, stroke: '#fff' }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="contributed"
-                  name="Amount Invested"
-                  stroke="#10b981"
-                  strokeWidth={isMobile ? 3 : 5}
-                  strokeDasharray="10 5"
-                  dot={false}
-                  activeDot={{ r: isMobile ? 6 : 10, fill: '#10b981', strokeWidth: 3, stroke: '#fff' }}
-                />
+                {monteCarloBands && (
+                  <Area
+                    type="monotone"
+                    dataKey="percentileRange"
+                    name="10th–90th Percentile"
+                    stroke="#a78bfa"
+                    strokeDasharray="6 4"
+                    fill="#ddd6fe"
+                    fillOpacity={0.45}
+                  />
+                )}
+                {chartMode === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="stackInvested"
+                    name={totalWithdrawn > 0 ? 'Amount Invested Less Withdrawals' : 'Amount Invested'}
+                    stackId="split"
+                    stroke="#10b981"
+                    fill="#6ee7b7"
+                    fillOpacity={0.6}
+                  />
+                )}
+                {chartMode === 'stacked' && (
+                  <Area
+                    type="monotone"
+                    dataKey="stackGrowth"
+                    name="Growth"
+                    stackId="split"
+                    stroke="#2563eb"
+                    fill="#93c5fd"
+                    fillOpacity={0.6}
+                  />
+                )}
+                {chartMode === 'stacked' && plotData.some((d) => d.lossBand) && (
+                  <Area
+                    type="monotone"
+                    dataKey="lossBand"
+                    name="Lost From Invested"
+                    stroke="#dc2626"
+                    fill="#fca5a5"
+                    fillOpacity={0.7}
+                  />
+                )}
+                {chartMode !== 'stacked' && (
+                  <Line
+                    type="monotone"
+                    dataKey="total"
+                    name="Total Value"
+                    stroke="#2563eb"
+                    strokeWidth={isMobile ? 3 : 5}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 6 : 10, fill: '#2563eb', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {chartMode !== 'stacked' && (
+                  <Line
+                    type="monotone"
+                    dataKey="contributed"
+                    name="Amount Invested"
+                    stroke="#10b981"
+                    strokeWidth={isMobile ? 3 : 5}
+                    strokeDasharray="10 5"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 6 : 10, fill: '#10b981', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {chartMode === 'growthShare' && (
+                  <Line
+                    yAxisId="share"
+                    type="monotone"
+                    dataKey="growthShare"
+                    name="% From Growth"
+                    stroke="#4d7c0f"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="1 3"
+                    strokeLinecap="round"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#4d7c0f', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {monteCarloBands && (
+                  <Line
+                    type="monotone"
+                    dataKey="p50"
+                    name="Median (Simulated)"
+                    stroke="#7c3aed"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                  />
+                )}
+                {backtestOverlay && (
+                  <Line
+                    type="monotone"
+                    dataKey="historical"
+                    name={`History from ${backtestOverlay.startYear}`}
+                    stroke="#d97706"
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#d97706', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {scenarioOutcomes.map((sc) => (
+                  <Line
+                    key={sc.id}
+                    type="monotone"
+                    dataKey={`scenarios.${sc.id}`}
+                    name={sc.name || 'Pinned plan'}
+                    stroke={sc.colour}
+                    strokeWidth={isMobile ? 2 : 3}
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: sc.colour, strokeWidth: 3, stroke: '#fff' }}
+                  />
+                ))}
+                {stressedRows && (
+                  <Line
+                    type="monotone"
+                    dataKey="stressed"
+                    name={`After a ${crash.fallPercent}% Crash`}
+                    stroke="#991b1b"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="10 3 2 3"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#991b1b', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {stressedRows && (
+                  <ReferenceLine
+                    x={crashAge}
+                    stroke="#991b1b"
+                    strokeWidth={isMobile ? 1 : 2}
+                    strokeDasharray="3 3"
+                    label={{
+                      value: `Crash −${crash.fallPercent}%`,
+                      position: 'insideBottomLeft',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#991b1b' },
+                    }}
+                  />
+                )}
+                {showDelayLine && (
+                  <Line
+                    type="monotone"
+                    dataKey="delayed"
+                    name={`Starting ${effectiveDelayYears} Years Later`}
+                    stroke="#e11d48"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="8 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#e11d48', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {feeSummary.feeDrag > 0 && (
+                  <Line
+                    type="monotone"
+                    dataKey="feeDrag"
+                    name="Fee Drag"
+                    stroke="#dc2626"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#dc2626', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {showDividends && (
+                  <Line
+                    type="monotone"
+                    dataKey="dividends"
+                    name={dividendSettings.reinvest ? 'Dividends Reinvested' : 'Dividends Paid Out'}
+                    stroke="#0284c7"
+                    strokeWidth={isMobile ? 2 : 3}
+                    strokeDasharray="2 4"
+                    dot={false}
+                    activeDot={{ r: isMobile ? 5 : 8, fill: '#0284c7', strokeWidth: 3, stroke: '#fff' }}
+                  />
+                )}
+                {lumpSumMarkers.map((m) => (
+                  <ReferenceDot
+                    key={`lump-${m.eventIndex}`}
+                    x={m.age}
+                    y={m.total}
+                    r={isMobile ? 5 : 7}
+                    fill={m.shortfall > 0 ? '#b91c1c' : m.applied < 0 ? '#f97316' : '#c026d3'}
+                    stroke="#fff"
+                    strokeWidth={2}
+                    label={{
+                      value: signedShortMoney(m.applied),
+                      position: 'top',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#86198f' },
+                    }}
+                  />
+                ))}
+                {scheduleMarkers.map((step, i) => (
+                  <ReferenceLine
+                    key={`step-${i}`}
+                    x={step.age}
+                    stroke="#1d4ed8"
+                    strokeWidth={isMobile ? 1 : 1.5}
+                    strokeDasharray="2 4"
+                    label={{
+                      value: `${step.amount > step.previous ? '↑' : '↓'} $${step.amount.toLocaleString()}/${frequency.unit}`,
+                      position: 'insideTopLeft',
+                      style: { fontSize: isMobile ? '9px' : '12px', fontWeight: 'bold', fill: '#1d4ed8' },
+                    }}
+                  />
+                ))}
+                {milestones.map((m) => (
+                  <ReferenceDot
+                    key={m.id}
+                    x={m.age}
+                    y={m.total}
+                    r={isMobile ? 5 : 7}
+                    fill="#fff"
+                    stroke="#b45309"
+                    strokeWidth={3}
+                    label={{
+                      value: m.label,
+                      position: 'left',
+                      style: { fontSize: isMobile ? '10px' : '13px', fontWeight: 'bold', fill: '#b45309' },
+                    }}
+                  />
+                ))}
                 <ReferenceLine
                   x={targetAge}
                   stroke="#9333ea"
@@ -1075,7 +1980,7 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                     }
                   }}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
             
             {/* Summary Stats - Positioned side by side in top middle white space */}
@@ -1117,18 +2022,41 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
                   </div>
                   <div className={`${isMobile ? 'text-[9px] sm:text-[10px]' : 'text-[10px] sm:text-xs'} font-semibold opacity-95 leading-tight`}>Extra from growth</div>
                 </div>
+                {totalWithdrawn > 0 && (
+                  <div
+                    className="bg-gradient-to-br from-rose-500 via-rose-600 to-rose-700 rounded-xl p-2 sm:p-2.5 shadow-2xl text-center text-white transform hover:scale-105 hover:shadow-3xl hover:z-20 transition-all duration-300 cursor-pointer border-2 border-white/40 hover:border-white/60 backdrop-blur-md flex-1"
+                    title="Taken out by lump-sum withdrawals"
+                    style={{ boxShadow: '0 10px 25px rgba(225, 29, 72, 0.4)' }}
+                  >
+                    <div className={`${isMobile ? 'text-base sm:text-lg' : 'text-lg sm:text-xl'} font-extrabold mb-0.5 leading-tight`}>
+                      {shortMoney(totalWithdrawn)}
+                    </div>
+                    <div className={`${isMobile ? 'text-[9px] sm:text-[10px]' : 'text-[10px] sm:text-xs'} font-semibold opacity-95 leading-tight`}>Withdrawn</div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          <YearByYearTable
+            enabled={showYearTable}
+            onEnabledChange={setShowYearTable}
+            rows={yearFlows}
+            contributionsLabel="Added"
+            basisNote={`${describeValueBasis(valueBasis, inflationRate).toLowerCase()}${
+              valueBasis === 'real' ? ', each row at its own year-end prices' : ''
+            }`}
+          />
+
           <div className="bg-yellow-50 border-2 border-yellow-300 rounded-2xl p-4 sm:p-6 text-center">
             <p className="text-lg sm:text-2xl font-bold text-gray-800 mb-2">
               Starting at age <span className="text-purple-600">{startAge}</span> with{' '}
-              <span className="text-blue-600">${monthlyAmount}/month</span>
+              <span className="text-blue-600">${monthlyAmount}/{frequency.unit}</span>
             </p>
             <p className="text-base sm:text-xl text-gray-700">
               By future age <span className="text-orange-600 font-bold">{targetAge}</span>, the graph shows about{' '}
               <span className="text-blue-600 font-bold text-2xl sm:text-3xl">${finalAmount.toLocaleString()}</span>
+              {valueBasis === 'real' && <span className="text-sm sm:text-base text-gray-600"> in today&apos;s dollars</span>}
             </p>
             <p className="text-sm sm:text-lg text-gray-600 mt-3">
               About <strong>${totalGrowth.toLocaleString()}</strong> of that is growth in this example — not a real-world promise! 🚀
@@ -1250,27 +2178,32 @@ const KidsWealthBlueprint: React.FC<KidsWealthBlueprintProps> = ({ pdfExportRef
             Small, steady steps today can mean a stronger financial foundation for a child or young person. 🚀
           </p>
           
-          {/* Simple visual bars - stack on mobile, horizontal on desktop */}
+          {/* Live start-now vs start-later comparison from the calculator - stack on mobile, horizontal on desktop */}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-3 md:gap-6 mt-4 sm:mt-6 md:mt-8">
             <div className="text-center transform hover:scale-110 transition-transform">
-              <div className="bg-white/20 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$0</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Start Here</div>
+              <div className="bg-white/40 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">${costOfWaiting.nowTotal.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Start now → age {targetAge} 🎉</div>
               </div>
             </div>
             <div className="text-center transform hover:scale-110 transition-transform">
               <div className="bg-white/30 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$200/mo</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">Keep Going</div>
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">${costOfWaiting.delayedTotal.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">
+                  Start in {costOfWaiting.delayYears} {costOfWaiting.delayYears === 1 ? 'year' : 'years'}
+                </div>
               </div>
             </div>
             <div className="text-center transform hover:scale-110 transition-transform">
-              <div className="bg-white/40 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
-                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">$1.2M+</div>
-                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">High score energy 🎉</div>
+              <div className="bg-white/20 rounded-xl p-4 sm:p-3 md:p-6 mb-2">
+                <div className="text-3xl sm:text-2xl md:text-4xl font-bold">−${costOfWaiting.cost.toLocaleString()}</div>
+                <div className="text-sm sm:text-xs md:text-base opacity-90 mt-2">What waiting costs</div>
               </div>
             </div>
           </div>
+          <p className="text-sm sm:text-base text-center opacity-90 mt-4">
+            Based on the settings above. Change the delay in the ⏳ Cost of waiting box.
+          </p>
         </div>
       </section>
 
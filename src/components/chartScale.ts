@@ -0,0 +1,67 @@
+/** Y-axis helpers shared by the Family and Kids growth charts. */
+
+/** "Nice" gridline step for a dollar axis reaching `max`. */
+function niceStep(max: number): number {
+  if (max >= 1000000) {
+    // For millions, use 0.2M, 0.5M, 1M, 2M, 5M or 10M steps
+    if (max < 2000000) return 200000;
+    if (max < 5000000) return 500000;
+    if (max < 10000000) return 1000000;
+    if (max < 20000000) return 2000000;
+    if (max < 50000000) return 5000000;
+    return 10000000;
+  }
+  // For hundreds of thousands, 10k steps unless that gives too many ticks
+  if (max >= 100000) return Math.ceil(max / 10000) > 12 ? 20000 : 10000;
+  if (max >= 10000) return max < 20000 ? 2000 : max < 50000 ? 5000 : 10000;
+  if (max >= 1000) return max < 2000 ? 500 : max < 5000 ? 1000 : 2000;
+  if (max >= 100) return max < 200 ? 50 : max < 500 ? 100 : 200;
+  return max < 20 ? 10 : max < 50 ? 20 : 50;
+}
+
+/** Top of a linear axis: the first nice step at or above `max` (no padding); 100k when there is nothing to plot. */
+export function niceAxisMax(max: number): number {
+  if (!(max > 0)) return 100000;
+  const step = niceStep(max);
+  return Math.ceil(max / step) * step;
+}
+
+/** Ticks from 0 to `axisMax`, stepped for an axis of that height; `axisMax` is always the last tick. */
+export function niceAxisTicks(axisMax: number): number[] {
+  if (axisMax === 0) return [0, 100000];
+  const step = niceStep(axisMax);
+  const ticks = [0];
+  for (let tick = step; tick <= axisMax; tick += step) ticks.push(tick);
+  if (ticks[ticks.length - 1] !== axisMax) ticks.push(axisMax);
+  return ticks;
+}
+
+/**
+ * Powers of ten spanning the positive `values`, for a log axis. The floor stops at $100 so a balance
+ * spent down to a few dollars doesn't stretch the axis; anything lower runs off the bottom.
+ */
+export function logAxisTicks(values: number[]): number[] {
+  const positive = values.filter((v) => v > 0);
+  if (positive.length === 0) return [100, 1000, 10000, 100000];
+  const low = Math.max(2, Math.floor(Math.log10(Math.min(...positive))));
+  const high = Math.max(low + 1, Math.ceil(Math.log10(Math.max(...positive))));
+  return Array.from({ length: high - low + 1 }, (_, i) => Math.pow(10, low + i));
+}
+
+/**
+ * Copy of chart rows for a log axis: zero and negative amounts (nested ones and range bands too) become gaps, since
+ * log(0) has no position. Keys in `keep` (the x value) are left alone.
+ */
+export function forLogScale<T extends object>(rows: T[], keep: string[] = ['age']): T[] {
+  const clean = (value: unknown, key: string): unknown => {
+    if (keep.includes(key)) return value;
+    if (typeof value === 'number') return value > 0 ? value : undefined;
+    // Range bands ([low, high]) drop out whole rather than losing one edge
+    if (Array.isArray(value)) return value.every((v) => typeof v !== 'number' || v > 0) ? value : undefined;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clean(v, k)]));
+    }
+    return value;
+  };
+  return rows.map((row) => clean(row, '') as T);
+}
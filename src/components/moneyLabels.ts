@@ -0,0 +1,24 @@
+/** Compact dollar labels for chart markers and small summaries. */
+
+/**
+ * "$450", "$1.5k", "$25k", "$1.2M". Thousands keep one decimal below $10k so small amounts don't round to
+ * "$0k" or "$1k".
+ */
+export function shortMoney(value: number): string {
+  const abs = Math.abs(value);
+  const trim = (text: string) => text.replace(/\.0$/, '');
+  const text =
+    abs >= 999500
+      ? `${trim((abs / 1000000).toFixed(1))}M`
+      : abs >= 9950
+        ? `${Math.round(abs / 1000)}k`
+        : abs >= 1000
+          ? `${trim((abs / 1000).toFixed(1))}k`
+          : Math.round(abs).toLocaleString();
+  return `${value < 0 ? '−' : ''}$${text}`;
+}
+
+/** `shortMoney` with an explicit sign, for deposits (+) and withdrawals (−). */
+export function signedShortMoney(amount: number): string {
+  return `${amount < 0 ? '' : '+'}${shortMoney(amount)}`;
+}
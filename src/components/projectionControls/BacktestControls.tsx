@@ -0,0 +1,123 @@
+import React from 'react';
+import { HISTORICAL_INDICES, lastYearOf, type BacktestOutcome, type BacktestResult } from '../../projection';
+
+type BacktestControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  indexId: string;
+  onIndexChange: (id: string) => void;
+  result: BacktestResult | null;
+  /** Start year drawn on the chart (null = median outcome). */
+  overlayYear: number | null;
+  onOverlayYearChange: (year: number | null) => void;
+  /** Final balance in the basis shown on screen. */
+  displayFinal: (outcome: BacktestOutcome) => number;
+  targetAge: number;
+};
+
+/** "What if I'd started in 1990?" — replays the plan over every historical start year. */
+const BacktestControls: React.FC<BacktestControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  indexId,
+  onIndexChange,
+  result,
+  overlayYear,
+  onOverlayYearChange,
+  displayFinal,
+  targetAge,
+}) => {
+  // Worst, median and best; a missing one (no start year had enough history) is left out
+  const stats: Array<{ label: string; outcome: BacktestOutcome; tone: string }> = result
+    ? [
+        { label: 'Worst', outcome: result.worst, tone: 'text-red-700' },
+        { label: 'Median', outcome: result.median, tone: 'text-gray-900' },
+        { label: 'Best', outcome: result.best, tone: 'text-emerald-700' },
+      ].flatMap(({ outcome, ...rest }) => (outcome ? [{ ...rest, outcome }] : []))
+    : [];
+  const years = result ? [...result.outcomes].sort((a, b) => a.startYear - b.startYear).map((o) => o.startYear) : [];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-amber-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-amber-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">🕰️ Replay history</span>
+          <span className="block text-xs text-gray-600">
+            Runs this exact plan through real past market years, for every start year with enough history.
+          </span>
+        </span>
+      </label>
+      {enabled && result && (
+        <div className="mt-3 flex flex-col gap-2 text-xs sm:text-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 font-semibold text-gray-700">
+            <label className="flex items-center gap-1.5">
+              <span>Index</span>
+              <select
+                value={indexId}
+                onChange={(e) => onIndexChange(e.target.value)}
+                className="text-sm font-bold text-amber-800 border border-amber-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {HISTORICAL_INDICES.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {years.length > 0 && (
+              <label className="flex items-center gap-1.5">
+                <span>Show start year</span>
+                <select
+                  value={overlayYear ?? ''}
+                  onChange={(e) => onOverlayYearChange(e.target.value === '' ? null : Number(e.target.value))}
+                  className="text-sm font-bold text-amber-800 border border-amber-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  <option value="">Median ({result.median?.startYear})</option>
+                  {years.map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          {years.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2">
+              {stats.map((s) => (
+                <button
+                  key={s.label}
+                  type="button"
+                  onClick={() => onOverlayYearChange(s.outcome.startYear)}
+                  className="rounded-lg border border-amber-200 bg-amber-50/70 px-2 py-1.5 text-center hover:bg-amber-100 transition-colors"
+                >
+                  <div className={`font-extrabold ${s.tone}`}>${displayFinal(s.outcome).toLocaleString()}</div>
+                  <div className="text-[10px] sm:text-xs text-gray-600">
+                    {s.label} · started {s.outcome.startYear}
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-700">
+              The bundled history runs {result.index.firstYear}–{lastYearOf(result.index)}, which is shorter than the{' '}
+              {result.yearsNeeded} years to age {targetAge}. Choose a nearer target age to replay history.
+            </p>
+          )}
+          <p className="text-[10px] sm:text-xs text-gray-500">
+            {result.index.description}; {result.outcomes.length} start years tested. Past returns don&apos;t predict
+            future returns.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestControls;
@@ -0,0 +1,56 @@
+import React from 'react';
+
+/** How the main chart draws the balance. */
+export type ChartMode = 'lines' | 'stacked' | 'log' | 'growthShare';
+
+type ChartModeControlProps = {
+  mode: ChartMode;
+  onModeChange: (mode: ChartMode) => void;
+};
+
+const options: Array<{ value: ChartMode; label: string; hint: string }> = [
+  { value: 'lines', label: 'Lines', hint: 'Total value and amount invested as lines.' },
+  {
+    value: 'stacked',
+    label: 'Invested vs growth',
+    hint: 'Stacked areas: what you put in at the bottom, what the market added on top.',
+  },
+  {
+    value: 'log',
+    label: 'Log scale',
+    hint: 'Each gridline is 10× the one below, so early years stay readable on long horizons.',
+  },
+  {
+    value: 'growthShare',
+    label: '% from growth',
+    hint: 'Adds the share of the balance that came from growth rather than contributions (right axis).',
+  },
+];
+
+/** Picks how the main chart is drawn; the PDF snapshot captures whichever view is showing. */
+const ChartModeControl: React.FC<ChartModeControlProps> = ({ mode, onModeChange }) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-green-200 mb-3 flex flex-col sm:flex-row sm:items-center gap-3">
+    <div className="flex-1 min-w-0">
+      <div className="text-sm font-bold text-gray-800">📊 Chart view</div>
+      <p className="text-xs text-gray-600">{options.find((o) => o.value === mode)?.hint}</p>
+    </div>
+    <div className="flex flex-wrap rounded-lg bg-green-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Chart view">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          type="button"
+          role="radio"
+          aria-checked={mode === o.value}
+          onClick={() => onModeChange(o.value)}
+          className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+            mode === o.value ? 'bg-green-600 text-white shadow' : 'text-green-800 hover:bg-green-200'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default ChartModeControl;
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { CostOfWaiting } from '../../projection';
+
+type CostOfWaitingControlsProps = {
+  delayYears: number;
+  onDelayYearsChange: (years: number) => void;
+  /** Longest delay that still leaves at least a year of investing. */
+  maxDelayYears: number;
+  showOnChart: boolean;
+  onShowOnChartChange: (show: boolean) => void;
+  /** Totals in the basis shown on screen. */
+  summary: CostOfWaiting;
+  targetAge: number;
+};
+
+/** "What if I start in N years?" — the same plan begun later, and what the wait costs by the target age. */
+const CostOfWaitingControls: React.FC<CostOfWaitingControlsProps> = ({
+  delayYears,
+  onDelayYearsChange,
+  maxDelayYears,
+  showOnChart,
+  onShowOnChartChange,
+  summary,
+  targetAge,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-rose-200 mb-3">
+    <div className="text-sm font-bold text-gray-800">⏳ Cost of waiting</div>
+    <p className="text-xs text-gray-600">
+      The same plan, started later. Everything else stays the same — you just miss the early years of growth.
+    </p>
+    <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+      <label className="flex items-center gap-1.5">
+        <span>Start in</span>
+        <input
+          type="number"
+          min={1}
+          max={maxDelayYears}
+          step={1}
+          value={delayYears}
+          onChange={(e) => {
+            const num = Number(e.target.value);
+            if (!isNaN(num)) onDelayYearsChange(Math.max(1, Math.min(maxDelayYears, Math.round(num))));
+          }}
+          className="w-16 text-sm font-bold text-rose-700 text-center border border-rose-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+        <span>{delayYears === 1 ? 'year' : 'years'}</span>
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showOnChart}
+          onChange={(e) => onShowOnChartChange(e.target.checked)}
+          className="h-4 w-4 accent-rose-600"
+        />
+        <span>Show on chart</span>
+      </label>
+    </div>
+    <p className="mt-2 text-xs sm:text-sm text-gray-800" aria-live="polite">
+      Waiting {delayYears} {delayYears === 1 ? 'year' : 'years'} leaves ${summary.delayedTotal.toLocaleString()} at age{' '}
+      {targetAge} instead of ${summary.nowTotal.toLocaleString()} —{' '}
+      <strong className="text-rose-700">${summary.cost.toLocaleString()} less</strong> (
+      {summary.costPercent.toFixed(0)}%).
+    </p>
+  </div>
+);
+
+export default CostOfWaitingControls;
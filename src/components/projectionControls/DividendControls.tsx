@@ -0,0 +1,116 @@
+import React from 'react';
+
+export type DividendSettings = {
+  /** Part of the return paid as dividends, percent p.a.; the rest is capital growth. */
+  yieldPercent: number;
+  /** Reinvest dividends (true) or take them as cash (false). */
+  reinvest: boolean;
+};
+
+type DividendControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: DividendSettings;
+  onSettingsChange: (settings: DividendSettings) => void;
+  /** Highest yield allowed — the total return, so capital growth never goes below zero. */
+  maxYield: number;
+  /** Total return the yield is split from, percent p.a.; omit when pots have different returns. */
+  annualReturn?: number;
+  /** Cumulative dividends paid by the target age, in the basis shown on screen. */
+  totalDividends: number;
+  /** Yearly dividends at the target age, in the basis shown on screen. */
+  passiveIncome: number;
+  targetAge: number;
+  /** Extra sentence shown under the reinvest/cash choice, e.g. which pots it applies to. */
+  note?: string;
+};
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+    active ? 'bg-pink-500 text-white shadow' : 'text-pink-900 hover:bg-pink-200'
+  }`;
+
+/** Split the return into dividend yield and capital growth, and choose whether dividends are reinvested. */
+const DividendControls: React.FC<DividendControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  maxYield,
+  annualReturn,
+  totalDividends,
+  passiveIncome,
+  targetAge,
+  note,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-pink-200 mb-3">
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-pink-600"
+      />
+      <span>
+        <span className="block text-sm font-bold text-gray-800">💵 Dividends</span>
+        <span className="block text-xs text-gray-600">
+          Part of the return arrives as cash dividends; the rest is the investments rising in price. Reinvest them to
+          keep compounding, or take them as income.
+        </span>
+      </span>
+    </label>
+    {enabled && (
+      <div className="mt-3 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <span>Dividend yield</span>
+            <input
+              type="number"
+              min={0}
+              max={maxYield}
+              step={0.1}
+              value={settings.yieldPercent}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onSettingsChange({ ...settings, yieldPercent: Math.max(0, Math.min(maxYield, num)) });
+              }}
+              className="w-20 text-sm font-bold text-pink-700 text-center border border-pink-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-pink-500"
+            />
+            <span>
+              %{annualReturn != null && ` + ${Math.max(0, annualReturn - settings.yieldPercent).toFixed(1)}% capital growth`}
+            </span>
+          </label>
+          <div className="flex rounded-lg bg-pink-100 p-0.5 gap-0.5" role="radiogroup" aria-label="What happens to dividends">
+            <button
+              type="button"
+              role="radio"
+              aria-checked={settings.reinvest}
+              onClick={() => onSettingsChange({ ...settings, reinvest: true })}
+              className={segmentClass(settings.reinvest)}
+            >
+              Reinvest
+            </button>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={!settings.reinvest}
+              onClick={() => onSettingsChange({ ...settings, reinvest: false })}
+              className={segmentClass(!settings.reinvest)}
+            >
+              Take as cash
+            </button>
+          </div>
+        </div>
+        {note && <p className="text-xs text-gray-600">{note}</p>}
+        <p className="text-xs sm:text-sm text-gray-800" aria-live="polite">
+          By age {targetAge}: <strong className="text-pink-700">${totalDividends.toLocaleString()}</strong> in dividends{' '}
+          {settings.reinvest ? 'reinvested' : 'paid out as cash'}, and the portfolio would pay about{' '}
+          <strong className="text-pink-700">${passiveIncome.toLocaleString()} a year</strong> (
+          ${Math.round(passiveIncome / 12).toLocaleString()} a month) in passive income.
+        </p>
+      </div>
+    )}
+  </div>
+);
+
+export default DividendControls;
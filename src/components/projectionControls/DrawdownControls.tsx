@@ -0,0 +1,142 @@
+import React from 'react';
+
+/** Drawdown inputs as edited on screen; spending is in today's dollars. */
+export type DrawdownPlan = {
+  lifeExpectancy: number;
+  annualSpendingToday: number;
+  indexSpending: boolean;
+  postRetirementReturn: number;
+};
+
+type DrawdownControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  plan: DrawdownPlan;
+  onPlanChange: (plan: DrawdownPlan) => void;
+  targetAge: number;
+  inflationRate: number;
+  /** Age the money runs out, or null if it lasts to life expectancy. */
+  depletionAge: number | null;
+  /** Largest first-year spend (today's dollars) that lasts to life expectancy. */
+  sustainableSpendToday: number;
+  /** Spending the accessible money couldn't cover before super unlocks at `unlockAge`; null if it bridges. */
+  accessGap: { age: number; amount: number; unlockAge: number } | null;
+};
+
+const numberInputClass =
+  'w-20 text-sm font-bold text-teal-700 text-center border border-teal-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+/** Spending phase from the target age to life expectancy. */
+const DrawdownControls: React.FC<DrawdownControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  plan,
+  onPlanChange,
+  targetAge,
+  inflationRate,
+  depletionAge,
+  sustainableSpendToday,
+  accessGap,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-teal-200 mb-3">
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-teal-600"
+      />
+      <span>
+        <span className="block text-sm font-bold text-gray-800">🏖️ Spend it in retirement</span>
+        <span className="block text-xs text-gray-600">
+          Keeps the chart going after age {targetAge}: stop contributing, draw a yearly income and see how long the money
+          lasts.
+        </span>
+      </span>
+    </label>
+    {enabled && (
+      <div className="mt-3 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <span>Spending $</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={plan.annualSpendingToday}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onPlanChange({ ...plan, annualSpendingToday: Math.max(0, num) });
+              }}
+              className={`${numberInputClass} w-28`}
+            />
+            <span>/yr (today&apos;s $)</span>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Return after {targetAge}</span>
+            <input
+              type="number"
+              min={0}
+              max={15}
+              step={0.5}
+              value={plan.postRetirementReturn}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onPlanChange({ ...plan, postRetirementReturn: Math.max(0, Math.min(15, num)) });
+              }}
+              className={numberInputClass}
+            />
+            <span>%</span>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Plan to age</span>
+            <input
+              type="number"
+              min={targetAge + 1}
+              max={110}
+              step={1}
+              value={plan.lifeExpectancy}
+              onChange={(e) => {
+                const num = Math.round(Number(e.target.value));
+                if (!isNaN(num)) onPlanChange({ ...plan, lifeExpectancy: Math.max(targetAge + 1, Math.min(110, num)) });
+              }}
+              className={numberInputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={plan.indexSpending}
+              onChange={(e) => onPlanChange({ ...plan, indexSpending: e.target.checked })}
+              className="h-4 w-4 accent-teal-600"
+            />
+            <span>Rise with inflation ({inflationRate}% p.a.)</span>
+          </label>
+        </div>
+        <p className="text-xs sm:text-sm text-gray-800">
+          {depletionAge === null ? (
+            <>
+              ✅ The money lasts past age <strong className="text-teal-700">{plan.lifeExpectancy}</strong>.
+            </>
+          ) : (
+            <>
+              ⚠️ The money runs out at age <strong className="text-red-700">{Math.floor(depletionAge)}</strong>.
+            </>
+          )}{' '}
+          Most you could spend to last until {plan.lifeExpectancy}:{' '}
+          <strong className="text-teal-700">${sustainableSpendToday.toLocaleString()}</strong>/yr in today&apos;s dollars.
+        </p>
+        {accessGap && (
+          <p className="text-xs sm:text-sm text-gray-800">
+            🔒 Super stays locked until {accessGap.unlockAge}: from age{' '}
+            <strong className="text-red-700">{Math.floor(accessGap.age)}</strong> the personal pot can&apos;t cover the
+            spending, leaving about <strong className="text-red-700">${accessGap.amount.toLocaleString()}</strong>{' '}
+            unpaid before super opens.
+          </p>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default DrawdownControls;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { FeeSummary, PotFees } from '../../projection';
+
+type FeeControlsProps = {
+  pots: Array<{ id: string; label: string; fees: PotFees }>;
+  onChange: (id: string, fees: PotFees) => void;
+  summary: FeeSummary;
+  targetAge: number;
+};
+
+/** Per-pot percentage and fixed fees, plus how much lower the final balance is because of them. */
+const FeeControls: React.FC<FeeControlsProps> = ({ pots, onChange, summary, targetAge }) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-rose-200 mb-3">
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">🧾 Investment fees</div>
+        <p className="text-xs text-gray-600">
+          A percentage fee (like an ETF&apos;s management cost) plus any fixed yearly account fee. Small fees add up over
+          decades — that&apos;s why low-cost ETFs matter.
+        </p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2 sm:gap-4">
+        {pots.map((pot) => (
+          <div key={pot.id} className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+            {pots.length > 1 && <span className="w-16">{pot.label}</span>}
+            <input
+              type="number"
+              min={0}
+              max={5}
+              step={0.05}
+              value={pot.fees.feePercent}
+              aria-label={`${pot.label} fee (% per year)`}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onChange(pot.id, { ...pot.fees, feePercent: Math.max(0, Math.min(5, num)) });
+              }}
+              className="w-16 text-sm font-bold text-rose-700 text-center border border-rose-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-rose-500"
+            />
+            <span>% +</span>
+            <span>$</span>
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={pot.fees.fixedFeeAnnual}
+              aria-label={`${pot.label} fixed fee ($ per year)`}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onChange(pot.id, { ...pot.fees, fixedFeeAnnual: Math.max(0, num) });
+              }}
+              className="w-20 text-sm font-bold text-rose-700 text-center border border-rose-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-rose-500"
+            />
+            <span>/yr</span>
+          </div>
+        ))}
+      </div>
+    </div>
+    {summary.feeDrag > 0 && (
+      <p className="mt-2 pt-2 border-t border-rose-100 text-xs sm:text-sm text-gray-800">
+        Fee drag: <strong className="text-rose-700">${summary.feeDrag.toLocaleString()}</strong> less by age {targetAge} —{' '}
+        <strong>{summary.feeDragPercent.toFixed(1)}%</strong> lower than with zero fees (
+        ${summary.totalFees.toLocaleString()} paid in fees, plus the growth that money would have earned).
+      </p>
+    )}
+  </div>
+);
+
+export default FeeControls;
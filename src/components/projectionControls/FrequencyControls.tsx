@@ -0,0 +1,78 @@
+import React from 'react';
+import { CONTRIBUTION_FREQUENCIES, type CompoundingConvention, type ContributionFrequency } from '../../projection';
+
+type FrequencyControlsProps = {
+  frequency: ContributionFrequency;
+  onFrequencyChange: (frequency: ContributionFrequency) => void;
+  compounding: CompoundingConvention;
+  onCompoundingChange: (compounding: CompoundingConvention) => void;
+};
+
+const COMPOUNDING_OPTIONS: Array<{ value: CompoundingConvention; label: string }> = [
+  { value: 'monthly', label: 'Monthly nominal' },
+  { value: 'effective', label: 'Effective annual' },
+];
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+    active ? 'bg-yellow-500 text-white shadow' : 'text-yellow-900 hover:bg-yellow-200'
+  }`;
+
+/** How often contributions are paid and how the yearly return is turned into monthly growth. */
+const FrequencyControls: React.FC<FrequencyControlsProps> = ({
+  frequency,
+  onFrequencyChange,
+  compounding,
+  onCompoundingChange,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-yellow-200 mb-3 flex flex-col gap-3">
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">📅 I contribute</div>
+        <p className="text-xs text-gray-600">
+          Match your pay cycle. Switching keeps the same yearly total, so $500 a month becomes $115 a week.
+        </p>
+      </div>
+      <div className="flex flex-wrap rounded-lg bg-yellow-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Contribution frequency">
+        {CONTRIBUTION_FREQUENCIES.map((f) => (
+          <button
+            key={f.value}
+            type="button"
+            role="radio"
+            aria-checked={frequency === f.value}
+            onClick={() => onFrequencyChange(f.value)}
+            className={segmentClass(frequency === f.value)}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">🔁 Compounding</div>
+        <p className="text-xs text-gray-600">
+          {compounding === 'effective'
+            ? 'The return % is exactly what a balance earns over a full year.'
+            : 'A twelfth of the return % is added each month, so a year earns slightly more than the headline rate.'}
+        </p>
+      </div>
+      <div className="flex rounded-lg bg-yellow-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Compounding convention">
+        {COMPOUNDING_OPTIONS.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            role="radio"
+            aria-checked={compounding === o.value}
+            onClick={() => onCompoundingChange(o.value)}
+            className={segmentClass(compounding === o.value)}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default FrequencyControls;
@@ -0,0 +1,224 @@
+import React from 'react';
+import { describeReturnSchedule, lifecycleSchedule, type ReturnScheduleEntry } from '../../projection';
+
+export type GlidePathMode = 'lifecycle' | 'manual';
+
+export type GlidePathSettings = {
+  mode: GlidePathMode;
+  /** Lifecycle: last age at the growth return before the step-down starts. */
+  deRiskAge: number;
+  /** Lifecycle: return once fully de-risked, percent p.a. */
+  finalReturn: number;
+  /** Lifecycle: years taken to step down. */
+  stepYears: number;
+  /** Manual: return bands by age. */
+  bands: ReturnScheduleEntry[];
+};
+
+/** Return schedule for the chosen mode, stepping down from `growthReturn` in lifecycle mode. */
+export function glidePathSchedule(settings: GlidePathSettings, growthReturn: number): ReturnScheduleEntry[] {
+  return settings.mode === 'lifecycle'
+    ? lifecycleSchedule(growthReturn, settings.finalReturn, settings.deRiskAge, settings.stepYears)
+    : settings.bands;
+}
+
+type GlidePathControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: GlidePathSettings;
+  onSettingsChange: (settings: GlidePathSettings) => void;
+  /** Return before the first step (the main return slider). */
+  growthReturn: number;
+  startAge: number;
+  targetAge: number;
+  /** Extra sentence about which pots follow the glide path. */
+  note?: string;
+};
+
+const MODES: Array<{ value: GlidePathMode; label: string }> = [
+  { value: 'lifecycle', label: 'Lifecycle preset' },
+  { value: 'manual', label: 'My own bands' },
+];
+
+const numberInputClass =
+  'w-16 text-sm font-bold text-stone-700 text-center border border-stone-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-stone-500';
+
+/** Age-based return assumptions: a lifecycle step-down or hand-entered bands. */
+const GlidePathControls: React.FC<GlidePathControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  growthReturn,
+  startAge,
+  targetAge,
+  note,
+}) => {
+  const schedule = glidePathSchedule(settings, growthReturn);
+  const updateBand = (index: number, band: ReturnScheduleEntry) =>
+    onSettingsChange({ ...settings, bands: settings.bands.map((b, i) => (i === index ? band : b)) });
+  const removeBand = (index: number) =>
+    onSettingsChange({ ...settings, bands: settings.bands.filter((_, i) => i !== index) });
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-stone-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-stone-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">🛬 Glide path: return by age</span>
+          <span className="block text-xs text-gray-600">
+            Most people de-risk as they get older — lifecycle super options do it automatically. Step the return down
+            with age instead of assuming the same {growthReturn}% throughout.
+          </span>
+        </span>
+      </label>
+      {enabled && (
+        <div className="mt-3 flex flex-col gap-2">
+          <div className="flex rounded-lg bg-stone-100 p-0.5 gap-0.5 self-start" role="radiogroup" aria-label="Glide path type">
+            {MODES.map((m) => (
+              <button
+                key={m.value}
+                type="button"
+                role="radio"
+                aria-checked={settings.mode === m.value}
+                onClick={() => onSettingsChange({ ...settings, mode: m.value })}
+                className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+                  settings.mode === m.value ? 'bg-stone-600 text-white shadow' : 'text-stone-800 hover:bg-stone-200'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          {settings.mode === 'lifecycle' ? (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+              <label className="flex items-center gap-1.5">
+                <span>After age</span>
+                <input
+                  type="number"
+                  min={startAge}
+                  max={targetAge}
+                  step={1}
+                  value={settings.deRiskAge}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    if (!isNaN(num)) onSettingsChange({ ...settings, deRiskAge: Math.round(num) });
+                  }}
+                  className={numberInputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                <span>step down to</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={settings.finalReturn}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    if (!isNaN(num)) onSettingsChange({ ...settings, finalReturn: Math.max(0, Math.min(20, num)) });
+                  }}
+                  className={numberInputClass}
+                />
+                <span>%</span>
+              </label>
+              <label className="flex items-center gap-1.5">
+                <span>over</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  step={1}
+                  value={settings.stepYears}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    if (!isNaN(num)) {
+                      onSettingsChange({ ...settings, stepYears: Math.max(1, Math.min(30, Math.round(num))) });
+                    }
+                  }}
+                  className={numberInputClass}
+                />
+                <span>years</span>
+              </label>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {settings.bands.map((band, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+                  <span>From age</span>
+                  <input
+                    type="number"
+                    min={startAge}
+                    max={targetAge}
+                    step={1}
+                    value={band.age}
+                    aria-label={`Band ${index + 1} starting age`}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (!isNaN(num)) updateBand(index, { ...band, age: Math.round(num) });
+                    }}
+                    className={numberInputClass}
+                  />
+                  <span>return</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    step={0.5}
+                    value={band.annualReturn}
+                    aria-label={`Band ${index + 1} return (% per year)`}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (!isNaN(num)) updateBand(index, { ...band, annualReturn: Math.max(0, Math.min(20, num)) });
+                    }}
+                    className={numberInputClass}
+                  />
+                  <span>%</span>
+                  <button
+                    type="button"
+                    onClick={() => removeBand(index)}
+                    aria-label={`Remove band ${index + 1}`}
+                    className="text-red-500 hover:text-red-700 font-bold px-1"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => {
+                  const last = settings.bands[settings.bands.length - 1];
+                  onSettingsChange({
+                    ...settings,
+                    bands: [
+                      ...settings.bands,
+                      {
+                        age: Math.min(targetAge, last ? last.age + 5 : startAge + 10),
+                        annualReturn: Math.max(0, (last?.annualReturn ?? growthReturn) - 1),
+                      },
+                    ],
+                  });
+                }}
+                className="self-start text-xs text-stone-700 hover:text-stone-800 font-medium px-3 py-1.5 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors"
+              >
+                + Add age band
+              </button>
+            </div>
+          )}
+          {note && <p className="text-xs text-gray-600">{note}</p>}
+          <p className="text-xs sm:text-sm text-gray-800" aria-live="polite">
+            {describeReturnSchedule(schedule, growthReturn)}. Hover the chart to see the return at each age.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlidePathControls;
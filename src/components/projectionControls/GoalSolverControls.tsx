@@ -0,0 +1,174 @@
+import React from 'react';
+import type { GoalSolveMode } from '../../projection';
+
+/** Goal as entered: a balance, or a yearly income turned into a balance via the withdrawal rate. */
+export type GoalSettings = {
+  targetKind: 'balance' | 'income';
+  target: number;
+  /** Percent of the balance drawn each year when the target is an income. */
+  withdrawalRate: number;
+  solveFor: GoalSolveMode;
+};
+
+type GoalSolverControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  goal: GoalSettings;
+  onGoalChange: (goal: GoalSettings) => void;
+  /** Balance the goal needs at the target age, in the basis shown on screen. */
+  requiredBalance: number;
+  /** Solved value for `goal.solveFor` ($ per payment, % p.a. or age); null when it can't be reached. */
+  result: number | null;
+  onApply: () => void;
+  targetAge: number;
+  /** Oldest age the age solve looks at. */
+  maxAge: number;
+  /** Payment period of the monthly-amount answer ("month", "week", …). */
+  contributionUnit?: string;
+  /** Shown instead of a monthly answer when contributions don't come from the sliders (e.g. income mode). */
+  monthlyUnavailableNote?: string;
+};
+
+const solveOptions = (unit: string): Array<{ value: GoalSolveMode; label: string }> => [
+  { value: 'monthly', label: unit === 'month' ? 'Monthly amount' : `Amount per ${unit}` },
+  { value: 'return', label: 'Return' },
+  { value: 'age', label: 'Age' },
+];
+
+const numberInputClass =
+  'w-28 text-sm font-bold text-emerald-700 text-center border border-emerald-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+function describeResult(goal: GoalSettings, result: number | null, targetAge: number, maxAge: number, unit: string): string {
+  if (result === null) {
+    if (goal.solveFor === 'monthly') return 'Out of reach with regular contributions alone — try a later age.';
+    if (goal.solveFor === 'return') return 'Out of reach even at 30% a year — add more each month or aim later.';
+    return `Not reached by age ${maxAge} with the current plan.`;
+  }
+  if (goal.solveFor === 'monthly') return `Invest $${result.toLocaleString()} a ${unit} in total to get there by ${targetAge}.`;
+  if (goal.solveFor === 'return') return `You'd need about ${result}% a year to get there by ${targetAge}.`;
+  return `You'd get there at age ${result}.`;
+}
+
+/** Reverse mode: pick a goal, solve for the monthly amount, return or age, then apply it in one click. */
+const GoalSolverControls: React.FC<GoalSolverControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  goal,
+  onGoalChange,
+  requiredBalance,
+  result,
+  onApply,
+  targetAge,
+  maxAge,
+  contributionUnit = 'month',
+  monthlyUnavailableNote,
+}) => {
+  const unavailable = goal.solveFor === 'monthly' ? monthlyUnavailableNote : undefined;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-emerald-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-emerald-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">🎯 Work backwards from a goal</span>
+          <span className="block text-xs text-gray-600">
+            Tell us where you want to end up and we&apos;ll work out what it takes. Breaks, schedule changes and lump
+            sums are all included.
+          </span>
+        </span>
+      </label>
+      {enabled && (
+        <div className="mt-3 flex flex-col gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <label className="flex items-center gap-1.5">
+              <span>I want</span>
+              <select
+                value={goal.targetKind}
+                onChange={(e) => onGoalChange({ ...goal, targetKind: e.target.value as GoalSettings['targetKind'] })}
+                className="text-sm font-bold text-emerald-800 border border-emerald-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                <option value="balance">a balance of</option>
+                <option value="income">a yearly income of</option>
+              </select>
+              <span>$</span>
+              <input
+                type="number"
+                min={0}
+                step={goal.targetKind === 'income' ? 1000 : 10000}
+                value={goal.target}
+                onChange={(e) => {
+                  const num = Number(e.target.value);
+                  if (!isNaN(num)) onGoalChange({ ...goal, target: Math.max(0, num) });
+                }}
+                className={numberInputClass}
+              />
+            </label>
+            {goal.targetKind === 'income' && (
+              <label className="flex items-center gap-1.5">
+                <span>drawing</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  value={goal.withdrawalRate}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    if (!isNaN(num)) onGoalChange({ ...goal, withdrawalRate: Math.max(1, Math.min(10, num)) });
+                  }}
+                  className={`${numberInputClass} w-16`}
+                />
+                <span>% a year</span>
+              </label>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Solve for</span>
+            <div className="flex rounded-lg bg-emerald-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Solve for">
+              {solveOptions(contributionUnit).map((o) => (
+                <button
+                  key={o.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={goal.solveFor === o.value}
+                  onClick={() => onGoalChange({ ...goal, solveFor: o.value })}
+                  className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+                    goal.solveFor === o.value ? 'bg-emerald-600 text-white shadow' : 'text-emerald-800 hover:bg-emerald-200'
+                  }`}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {goal.targetKind === 'income' && (
+            <p className="font-medium text-gray-600">
+              That needs a balance of about ${requiredBalance.toLocaleString()} at age {targetAge}.
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-emerald-100">
+            <p className="flex-1 min-w-0 text-gray-800" aria-live="polite">
+              {unavailable ?? describeResult(goal, result, targetAge, maxAge, contributionUnit)}
+            </p>
+            {!unavailable && result !== null && (
+              <button
+                type="button"
+                onClick={onApply}
+                className="text-xs sm:text-sm text-white bg-emerald-600 hover:bg-emerald-700 font-bold px-3 py-1.5 rounded-lg transition-colors"
+              >
+                Apply
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalSolverControls;
@@ -0,0 +1,102 @@
+import React from 'react';
+import type { ContributionIndexation } from '../../projection';
+
+type IndexationControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  indexation: ContributionIndexation;
+  onIndexationChange: (indexation: ContributionIndexation) => void;
+  /** Amount per payment now and in the final year, per pot. */
+  examples: Array<{ label: string; from: number; to: number }>;
+  targetAge: number;
+  /** Payment period the amounts and cap are in ("month", "week", …). */
+  unit?: string;
+  /** Shown instead of the inputs when indexation doesn't apply (e.g. contributions already follow a salary). */
+  disabledNote?: string;
+};
+
+const numberInputClass =
+  'w-20 text-sm font-bold text-cyan-700 text-center border border-cyan-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+/** "Increase my contributions by X% a year" with an optional monthly cap. */
+const IndexationControls: React.FC<IndexationControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  indexation,
+  onIndexationChange,
+  examples,
+  targetAge,
+  unit = 'month',
+  disabledNote,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-cyan-200 mb-3">
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-cyan-600"
+      />
+      <span>
+        <span className="block text-sm font-bold text-gray-800">📶 Increase contributions every year</span>
+        <span className="block text-xs text-gray-600">
+          Most people save a little more each time they get a pay rise. This raises the monthly amount automatically.
+        </span>
+      </span>
+    </label>
+    {enabled &&
+      (disabledNote ? (
+        <p className="mt-2 text-xs sm:text-sm text-gray-700">{disabledNote}</p>
+      ) : (
+        <div className="mt-3 flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+            <label className="flex items-center gap-1.5">
+              <span>Increase by</span>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                step={0.5}
+                value={indexation.ratePercent}
+                onChange={(e) => {
+                  const num = Number(e.target.value);
+                  if (!isNaN(num)) onIndexationChange({ ...indexation, ratePercent: Math.max(0, Math.min(20, num)) });
+                }}
+                className={numberInputClass}
+              />
+              <span>% per year</span>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <span>Stop at $</span>
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={indexation.capMonthly}
+                onChange={(e) => {
+                  const num = Number(e.target.value);
+                  if (!isNaN(num)) onIndexationChange({ ...indexation, capMonthly: Math.max(0, num) });
+                }}
+                className={`${numberInputClass} w-24`}
+              />
+              <span>/{unit} (0 = no cap)</span>
+            </label>
+          </div>
+          <p className="text-xs sm:text-sm text-gray-800">
+            {examples.map((ex, i) => (
+              <span key={ex.label}>
+                {i > 0 && ' · '}
+                {examples.length > 1 && `${ex.label}: `}${Math.round(ex.from).toLocaleString()}/{unit} now →{' '}
+                <strong className="text-cyan-700">
+                  ${Math.round(ex.to).toLocaleString()}/{unit}
+                </strong>{' '}
+                before {targetAge}
+              </span>
+            ))}
+          </p>
+        </div>
+      ))}
+  </div>
+);
+
+export default IndexationControls;
@@ -0,0 +1,354 @@
+import React, { useRef, useState } from 'react';
+import { describeReduction, type ContributionBreak, type ProjectionEvent } from '../../projection';
+import { signedShortMoney } from '../moneyLabels';
+
+/** One entry of the "adjust contributions by age" schedule; amounts are per payment. */
+export type PayChange = { age: number; amountSuper: number; amountPersonal: number };
+
+type Lane = 'pay' | 'super' | 'personal' | 'lump';
+
+type LifeTimelineProps = {
+  startAge: number;
+  targetAge: number;
+  /** Only the lists the projection is using; editing an empty lane switches its section on. */
+  payChanges: PayChange[];
+  onPayChangesChange: (changes: PayChange[]) => void;
+  breaksSuper: ContributionBreak[];
+  onBreaksSuperChange: (breaks: ContributionBreak[]) => void;
+  breaksPersonal: ContributionBreak[];
+  onBreaksPersonalChange: (breaks: ContributionBreak[]) => void;
+  lumpSums: ProjectionEvent[];
+  onLumpSumsChange: (events: ProjectionEvent[]) => void;
+  /** Current amounts per payment, the starting point for a new pay rise. */
+  baseSuper: number;
+  basePersonal: number;
+  frequencyUnit: string;
+  /** Shown instead of the pay lane's add button when the schedule does not apply (income mode). */
+  payChangesNote?: string;
+};
+
+type Selection = { lane: Lane; index: number };
+
+type Drag = Selection & {
+  mode: 'move' | 'start' | 'end';
+  originX: number;
+  trackWidth: number;
+  from: number;
+  to: number;
+};
+
+const LANES: Array<{ lane: Lane; label: string }> = [
+  { lane: 'pay', label: 'Pay changes' },
+  { lane: 'super', label: 'Super breaks' },
+  { lane: 'personal', label: 'Personal breaks' },
+  { lane: 'lump', label: 'Lump sums' },
+];
+
+const itemClass: Record<Lane, string> = {
+  pay: 'bg-blue-600 text-white',
+  super: 'bg-amber-200/90 text-amber-900 border border-amber-500',
+  personal: 'bg-amber-100/90 text-amber-900 border border-amber-400',
+  lump: 'bg-fuchsia-600 text-white',
+};
+
+const addButtonClass =
+  'text-xs text-zinc-700 hover:text-zinc-900 font-medium px-3 py-1.5 border border-zinc-300 rounded-lg hover:bg-zinc-50 transition-colors';
+
+/**
+ * One age axis for everything that changes contributions: pay changes, breaks on either pot and lump sums.
+ * Drag an event to move it, drag a break's edges to resize it; edits go straight into the same lists the
+ * sections above use.
+ */
+const LifeTimeline: React.FC<LifeTimelineProps> = ({
+  startAge,
+  targetAge,
+  payChanges,
+  onPayChangesChange,
+  breaksSuper,
+  onBreaksSuperChange,
+  breaksPersonal,
+  onBreaksPersonalChange,
+  lumpSums,
+  onLumpSumsChange,
+  baseSuper,
+  basePersonal,
+  frequencyUnit,
+  payChangesNote,
+}) => {
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const drag = useRef<Drag | null>(null);
+  const span = Math.max(1, targetAge - startAge);
+  const pct = (age: number) => `${((Math.min(targetAge, Math.max(startAge, age)) - startAge) / span) * 100}%`;
+  const clampAge = (age: number) => Math.min(targetAge, Math.max(startAge, Math.round(age)));
+  const tickStep = span > 40 ? 10 : span > 15 ? 5 : span > 6 ? 2 : 1;
+  const ticks = Array.from({ length: Math.floor(span / tickStep) + 1 }, (_, i) => startAge + i * tickStep);
+
+  const breaksFor = (lane: Lane) => (lane === 'super' ? breaksSuper : breaksPersonal);
+  const setBreaksFor = (lane: Lane, breaks: ContributionBreak[]) =>
+    lane === 'super' ? onBreaksSuperChange(breaks) : onBreaksPersonalChange(breaks);
+
+  /** Pay changes back in age order, keeping the moved one selected. */
+  const sortPayChanges = (changes: PayChange[], moved: PayChange) => {
+    const next = [...changes].sort((a, b) => a.age - b.age);
+    onPayChangesChange(next);
+    setSelected({ lane: 'pay', index: next.indexOf(moved) });
+  };
+
+  /** Moves a point event or sets a break's range; pay changes are re-sorted unless a drag is still going. */
+  const place = (lane: Lane, index: number, from: number, to = from, sort = true) => {
+    if (lane === 'pay') {
+      const moved = { ...payChanges[index], age: from };
+      const next = payChanges.map((c, i) => (i === index ? moved : c));
+      if (sort) sortPayChanges(next, moved);
+      else onPayChangesChange(next);
+    } else if (lane === 'lump') {
+      onLumpSumsChange(lumpSums.map((e, i) => (i === index ? { ...e, age: from } : e)));
+    } else {
+      setBreaksFor(lane, breaksFor(lane).map((b, i) => (i === index ? { ...b, fromAge: from, toAge: to } : b)));
+    }
+  };
+
+  const remove = (lane: Lane, index: number) => {
+    if (lane === 'pay') onPayChangesChange(payChanges.filter((_, i) => i !== index));
+    else if (lane === 'lump') onLumpSumsChange(lumpSums.filter((_, i) => i !== index));
+    else setBreaksFor(lane, breaksFor(lane).filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const add = (lane: Lane) => {
+    const midAge = clampAge(startAge + span / 2);
+    if (lane === 'pay') {
+      const lastAge = payChanges.length > 0 ? payChanges[payChanges.length - 1].age + 5 : midAge;
+      const rise = (amount: number) => Math.round((amount * 1.1) / 10) * 10;
+      onPayChangesChange([
+        ...payChanges,
+        { age: clampAge(lastAge), amountSuper: rise(baseSuper), amountPersonal: rise(basePersonal) },
+      ]);
+      setSelected({ lane, index: payChanges.length });
+    } else if (lane === 'lump') {
+      onLumpSumsChange([...lumpSums, { age: midAge, potId: 'personal', amount: 10000, label: '' }]);
+      setSelected({ lane, index: lumpSums.length });
+    } else {
+      const breaks = breaksFor(lane);
+      setBreaksFor(lane, [
+        ...breaks,
+        { fromAge: midAge, toAge: clampAge(midAge + 1), reductionPercent: 100, label: '' },
+      ]);
+      setSelected({ lane, index: breaks.length });
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, lane: Lane, index: number, mode: Drag['mode']) => {
+    const track = e.currentTarget.closest('[data-track]');
+    if (!track) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const b = lane === 'super' || lane === 'personal' ? breaksFor(lane)[index] : null;
+    const age = lane === 'pay' ? payChanges[index].age : lane === 'lump' ? lumpSums[index].age : 0;
+    drag.current = {
+      lane,
+      index,
+      mode,
+      originX: e.clientX,
+      trackWidth: track.getBoundingClientRect().width,
+      from: b ? b.fromAge : age,
+      to: b ? b.toAge : age,
+    };
+    setSelected({ lane, index });
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLElement>) => {
+    const d = drag.current;
+    if (!d || d.trackWidth <= 0) return;
+    const delta = Math.round(((e.clientX - d.originX) / d.trackWidth) * span);
+    if (d.mode === 'start') {
+      place(d.lane, d.index, Math.min(d.to, clampAge(d.from + delta)), d.to, false);
+    } else if (d.mode === 'end') {
+      place(d.lane, d.index, d.from, Math.max(d.from, clampAge(d.to + delta)), false);
+    } else {
+      const shift = Math.min(targetAge - d.to, Math.max(startAge - d.from, delta));
+      place(d.lane, d.index, d.from + shift, d.to + shift, false);
+    }
+  };
+
+  const endDrag = () => {
+    const d = drag.current;
+    drag.current = null;
+    if (d?.lane === 'pay') sortPayChanges(payChanges, payChanges[d.index]);
+  };
+
+  /** ←/→ move by a year, Shift+←/→ resize a break, Delete removes. */
+  const onKeyDown = (e: React.KeyboardEvent<HTMLElement>, lane: Lane, index: number, from: number, to: number) => {
+    const step = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+    if (step !== 0) {
+      e.preventDefault();
+      if (e.shiftKey && (lane === 'super' || lane === 'personal')) {
+        place(lane, index, from, Math.max(from, clampAge(to + step)));
+      } else {
+        const shift = Math.min(targetAge - to, Math.max(startAge - from, step));
+        place(lane, index, from + shift, to + shift);
+      }
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      remove(lane, index);
+    } else if (e.key === 'Escape') {
+      setSelected(null);
+    }
+  };
+
+  const items = (lane: Lane) => {
+    if (lane === 'pay') {
+      return payChanges.map((c, index) => ({
+        index,
+        from: c.age,
+        to: c.age,
+        text: `$${(c.amountSuper + c.amountPersonal).toLocaleString()}`,
+        description: `Pay change at age ${c.age}: $${c.amountSuper.toLocaleString()} super + ${
+          `$${c.amountPersonal.toLocaleString()}`
+        } personal per ${frequencyUnit}`,
+      }));
+    }
+    if (lane === 'lump') {
+      return lumpSums.map((e, index) => ({
+        index,
+        from: e.age,
+        to: e.age,
+        text: signedShortMoney(e.amount),
+        description: `${e.label?.trim() || (e.amount < 0 ? 'Withdrawal' : 'Lump sum')} at age ${e.age}: ${signedShortMoney(
+          e.amount
+        )} ${e.potId === 'super' ? 'super' : 'personal'}`,
+      }));
+    }
+    return breaksFor(lane).map((b, index) => ({
+      index,
+      from: b.fromAge,
+      to: b.toAge,
+      text: `${b.label?.trim() || 'Break'} ${describeReduction(b)}`,
+      description: `${b.label?.trim() || 'Break'}: ${lane} contributions ${describeReduction(b)} from age ${
+        b.fromAge
+      } to ${b.toAge}`,
+    }));
+  };
+
+  const selectedItem = selected ? items(selected.lane)[selected.index] : undefined;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-zinc-200 mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold text-gray-800">🗺️ Life timeline</div>
+          <p className="text-xs text-gray-600">
+            Your whole plan on one line. Drag an event to move it and drag a break&apos;s edges to resize it; select
+            one and use ←/→ to move it (Shift to resize), Delete to remove. Amounts and labels are edited above.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {!payChangesNote && (
+            <button type="button" onClick={() => add('pay')} className={addButtonClass}>
+              + Pay rise
+            </button>
+          )}
+          <button type="button" onClick={() => add('super')} className={addButtonClass}>
+            + Super break
+          </button>
+          <button type="button" onClick={() => add('personal')} className={addButtonClass}>
+            + Personal break
+          </button>
+          <button type="button" onClick={() => add('lump')} className={addButtonClass}>
+            + Lump sum
+          </button>
+        </div>
+      </div>
+      <div className="mt-3 flex flex-col gap-1.5" role="group" aria-label={`Life events from age ${startAge} to ${targetAge}`}>
+        {LANES.map(({ lane, label }) => (
+          <div key={lane} className="flex items-center gap-2">
+            <div className="w-20 sm:w-28 shrink-0 text-[10px] sm:text-xs font-semibold text-gray-600">{label}</div>
+            <div data-track className="relative flex-1 h-8 rounded-md bg-zinc-100 border border-zinc-200">
+              {lane === 'pay' && payChangesNote && (
+                <span className="absolute inset-0 flex items-center px-2 text-[10px] sm:text-xs text-gray-500 truncate">
+                  {payChangesNote}
+                </span>
+              )}
+              {items(lane).map((item) => {
+                const isBreak = lane === 'super' || lane === 'personal';
+                const isSelected = selected?.lane === lane && selected.index === item.index;
+                const ring = isSelected ? 'ring-2 ring-zinc-800 z-10' : '';
+                const common = {
+                  role: 'slider' as const,
+                  tabIndex: 0,
+                  title: item.description,
+                  'aria-label': item.description,
+                  'aria-valuemin': startAge,
+                  'aria-valuemax': targetAge,
+                  'aria-valuenow': item.from,
+                  onPointerDown: (e: React.PointerEvent<HTMLElement>) => startDrag(e, lane, item.index, 'move'),
+                  onPointerMove: moveDrag,
+                  onPointerUp: endDrag,
+                  onPointerCancel: endDrag,
+                  onFocus: () => setSelected({ lane, index: item.index }),
+                  onKeyDown: (e: React.KeyboardEvent<HTMLElement>) =>
+                    onKeyDown(e, lane, item.index, item.from, item.to),
+                };
+                return isBreak ? (
+                  <div
+                    key={item.index}
+                    {...common}
+                    aria-valuetext={`age ${item.from} to ${item.to}`}
+                    className={`absolute top-1 bottom-1 rounded flex items-center justify-center px-2 text-[10px] sm:text-xs font-bold cursor-grab active:cursor-grabbing select-none touch-none overflow-hidden ${itemClass[lane]} ${ring}`}
+                    style={{ left: pct(item.from), width: `max(1.25rem, calc(${pct(item.to)} - ${pct(item.from)}))` }}
+                  >
+                    <span
+                      aria-hidden="true"
+                      className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize bg-amber-500/40"
+                      onPointerDown={(e) => startDrag(e, lane, item.index, 'start')}
+                    />
+                    <span className="truncate pointer-events-none">{item.text}</span>
+                    <span
+                      aria-hidden="true"
+                      className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-amber-500/40"
+                      onPointerDown={(e) => startDrag(e, lane, item.index, 'end')}
+                    />
+                  </div>
+                ) : (
+                  <div
+                    key={item.index}
+                    {...common}
+                    aria-valuetext={`age ${item.from}`}
+                    className={`absolute top-1 bottom-1 -translate-x-1/2 rounded-full flex items-center px-2 text-[10px] sm:text-xs font-bold whitespace-nowrap cursor-grab active:cursor-grabbing select-none touch-none shadow ${itemClass[lane]} ${ring}`}
+                    style={{ left: pct(item.from) }}
+                  >
+                    {item.text}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center gap-2" aria-hidden="true">
+          <div className="w-20 sm:w-28 shrink-0" />
+          <div className="relative flex-1 h-5 text-[10px] sm:text-xs font-bold text-gray-700">
+            {ticks.map((age) => (
+              <span key={age} className="absolute -translate-x-1/2" style={{ left: pct(age) }}>
+                {age}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+      {selected && selectedItem && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-800" aria-live="polite">
+          <span className="flex-1 min-w-0">{selectedItem.description}</span>
+          <button
+            type="button"
+            onClick={() => remove(selected.lane, selected.index)}
+            className="text-red-600 hover:text-red-700 text-xs font-bold px-2 py-0.5"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LifeTimeline;
@@ -0,0 +1,155 @@
+import React from 'react';
+import type { AppliedEvent, ProjectionEvent } from '../../projection';
+
+type LumpSumControlsProps = {
+  events: ProjectionEvent[];
+  onEventsChange: (events: ProjectionEvent[]) => void;
+  /** Pots a lump sum can go into or come out of (a pot picker is shown when there is more than one). */
+  pots: Array<{ id: string; label: string; lockedUntil?: number }>;
+  /** Engine results; an event with no entry fell outside the projection. */
+  applied: AppliedEvent[];
+  startAge: number;
+  targetAge: number;
+};
+
+const inputClass =
+  'text-sm font-bold text-fuchsia-700 text-center border border-fuchsia-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-fuchsia-500';
+
+/** Dated one-off deposits (bonus, inheritance) and withdrawals (house deposit) per pot. */
+const LumpSumControls: React.FC<LumpSumControlsProps> = ({
+  events,
+  onEventsChange,
+  pots,
+  applied,
+  startAge,
+  targetAge,
+}) => {
+  const update = (index: number, patch: Partial<ProjectionEvent>) =>
+    onEventsChange(events.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-fuchsia-200 mb-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold text-gray-800">💸 Lump sums</div>
+          <p className="text-xs text-gray-600">
+            A bonus, an inheritance, or money taken out for a house deposit — each shows as a dot on the chart.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            onEventsChange([
+              ...events,
+              { age: Math.min(targetAge, startAge + 5), potId: pots[pots.length - 1].id, amount: 10000, label: '' },
+            ])
+          }
+          className="text-xs text-fuchsia-700 hover:text-fuchsia-800 font-medium px-3 py-1.5 border border-fuchsia-300 rounded-lg hover:bg-fuchsia-50 transition-colors"
+        >
+          + Add lump sum
+        </button>
+      </div>
+      {events.length > 0 && (
+        <ul className="mt-3 flex flex-col gap-2">
+          {events.map((event, index) => {
+            const result = applied.find((a) => a.eventIndex === index);
+            const pot = pots.find((p) => p.id === event.potId);
+            const isWithdrawal = event.amount < 0;
+            return (
+              <li key={index} className="flex flex-col gap-1 text-xs sm:text-sm font-semibold text-gray-700">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center gap-1">
+                    <span>Age</span>
+                    <input
+                      type="number"
+                      min={startAge}
+                      max={targetAge}
+                      step={1}
+                      value={event.age}
+                      onChange={(e) => {
+                        const num = Number(e.target.value);
+                        if (!isNaN(num)) update(index, { age: Math.max(startAge, Math.min(targetAge, num)) });
+                      }}
+                      className={`${inputClass} w-16`}
+                    />
+                  </label>
+                  <select
+                    value={isWithdrawal ? 'out' : 'in'}
+                    onChange={(e) => update(index, { amount: (e.target.value === 'out' ? -1 : 1) * Math.abs(event.amount) })}
+                    aria-label="Deposit or withdrawal"
+                    className={`${inputClass} bg-white`}
+                  >
+                    <option value="in">Add</option>
+                    <option value="out">Take out</option>
+                  </select>
+                  <label className="flex items-center gap-1">
+                    <span>$</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1000}
+                      value={Math.abs(event.amount)}
+                      aria-label="Amount"
+                      onChange={(e) => {
+                        const num = Number(e.target.value);
+                        if (!isNaN(num)) update(index, { amount: (isWithdrawal ? -1 : 1) * Math.max(0, num) });
+                      }}
+                      className={`${inputClass} w-24`}
+                    />
+                  </label>
+                  {pots.length > 1 && (
+                    <select
+                      value={event.potId}
+                      onChange={(e) => update(index, { potId: e.target.value })}
+                      aria-label="Pot"
+                      className={`${inputClass} bg-white`}
+                    >
+                      {pots.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {isWithdrawal ? 'from' : 'to'} {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    value={event.label ?? ''}
+                    placeholder="e.g. Bonus"
+                    aria-label="Description"
+                    onChange={(e) => update(index, { label: e.target.value })}
+                    className={`${inputClass} w-32 text-left font-medium`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onEventsChange(events.filter((_, i) => i !== index))}
+                    aria-label="Remove lump sum"
+                    className="text-red-500 hover:text-red-700 font-bold px-1"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {result && result.shortfall > 0 && (
+                  <p role="alert" className="text-red-700 font-semibold">
+                    ⚠️ Only ${Math.round(-result.applied).toLocaleString()} is in {pot?.label ?? 'the pot'} at age{' '}
+                    {event.age} — ${Math.round(result.shortfall).toLocaleString()} of this withdrawal can&apos;t be paid.
+                  </p>
+                )}
+                {isWithdrawal && pot?.lockedUntil !== undefined && event.age < pot.lockedUntil && (
+                  <p role="alert" className="text-orange-700 font-semibold">
+                    ⚠️ {pot.label} is locked until age {pot.lockedUntil}, so this withdrawal wouldn&apos;t normally be
+                    allowed.
+                  </p>
+                )}
+                {!result && (
+                  <p className="text-gray-500 font-medium">This falls outside the projection and is ignored.</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LumpSumControls;
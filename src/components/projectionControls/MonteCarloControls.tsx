@@ -0,0 +1,136 @@
+import React from 'react';
+import type { MonteCarloSettings } from '../../projection';
+
+type MonteCarloControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: MonteCarloSettings;
+  onSettingsChange: (settings: MonteCarloSettings) => void;
+  targetBalance: number;
+  onTargetBalanceChange: (target: number) => void;
+  /** Chance (0–100) of reaching `targetBalance` by `targetAge`. */
+  probability: number;
+  targetAge: number;
+  /** The simulation is still catching up with the latest inputs. */
+  pending: boolean;
+};
+
+const numberInputClass =
+  'w-20 text-sm font-bold text-violet-700 text-center border border-violet-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-violet-500';
+
+/** Toggle and settings for the seeded "market ups and downs" simulation. */
+const MonteCarloControls: React.FC<MonteCarloControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  targetBalance,
+  onTargetBalanceChange,
+  probability,
+  targetAge,
+  pending,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-violet-200 mb-3">
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-violet-600"
+      />
+      <span>
+        <span className="block text-sm font-bold text-gray-800">🎲 Simulate market ups and downs</span>
+        <span className="block text-xs text-gray-600">
+          Runs {settings.paths.toLocaleString()} random return sequences and draws the 10th, 50th and 90th percentile
+          outcomes. The seed makes every run repeatable.
+        </span>
+      </span>
+    </label>
+    {enabled && (
+      <div className="mt-3 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <span>Average return</span>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              step={0.5}
+              value={settings.meanReturn}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onSettingsChange({ ...settings, meanReturn: Math.max(0, Math.min(20, num)) });
+              }}
+              className={numberInputClass}
+            />
+            <span>%</span>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Volatility</span>
+            <input
+              type="number"
+              min={0}
+              max={40}
+              step={1}
+              value={settings.volatility}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onSettingsChange({ ...settings, volatility: Math.max(0, Math.min(40, num)) });
+              }}
+              className={numberInputClass}
+            />
+            <span>%</span>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Seed</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.seed}
+              onChange={(e) => {
+                const num = Math.round(Number(e.target.value));
+                if (!isNaN(num) && num > 0) onSettingsChange({ ...settings, seed: num });
+              }}
+              className={numberInputClass}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => onSettingsChange({ ...settings, seed: Math.floor(Math.random() * 999999) + 1 })}
+            className="text-xs text-violet-700 hover:text-violet-800 font-medium px-2 py-1 border border-violet-300 rounded-lg hover:bg-violet-50 transition-colors"
+          >
+            New seed
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <span>Target balance $</span>
+            <input
+              type="number"
+              min={0}
+              step={10000}
+              value={targetBalance}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onTargetBalanceChange(Math.max(0, num));
+              }}
+              className={`${numberInputClass} w-28`}
+            />
+          </label>
+          <span className="text-gray-800">
+            → <strong className="text-violet-700">{Math.round(probability)}%</strong> chance of reaching it by age{' '}
+            {targetAge}
+          </span>
+          {pending && (
+            <span className="text-gray-500 italic" aria-live="polite">
+              Updating simulation…
+            </span>
+          )}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default MonteCarloControls;
@@ -0,0 +1,179 @@
+import React from 'react';
+import { Cell, Pie, PieChart, Tooltip } from 'recharts';
+import type { PortfolioBlend, PortfolioBlock, PortfolioSettings } from '../../projection';
+
+/** Slice colours for the default building blocks; any others cycle through the fallbacks. */
+const BLOCK_COLOURS: Record<string, string> = { broad: '#0369a1', tech: '#7c3aed', dividend: '#db2777' };
+const FALLBACK_COLOURS = ['#0891b2', '#65a30d', '#ca8a04'];
+
+export function blockColour(block: PortfolioBlock, index: number): string {
+  return BLOCK_COLOURS[block.id] ?? FALLBACK_COLOURS[index % FALLBACK_COLOURS.length];
+}
+
+type PortfolioControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: PortfolioSettings;
+  onSettingsChange: (settings: PortfolioSettings) => void;
+  /** Blend at the target weights. */
+  blend: PortfolioBlend;
+  /** Percent share of each block by the target age if it is never rebalanced. */
+  driftedAtTarget: number[];
+  targetAge: number;
+  /** Which pot(s) the blended return drives, e.g. "your personal investments". */
+  appliesTo: string;
+};
+
+const FIELDS: Array<{
+  key: 'weight' | 'annualReturn' | 'volatility' | 'feePercent';
+  label: string;
+  max: number;
+  step: number;
+}> = [
+  { key: 'weight', label: 'Weight %', max: 100, step: 5 },
+  { key: 'annualReturn', label: 'Return %', max: 20, step: 0.5 },
+  { key: 'volatility', label: 'Volatility %', max: 50, step: 1 },
+  { key: 'feePercent', label: 'Fee %', max: 2, step: 0.01 },
+];
+
+/** Weight the blueprint's ETF building blocks and blend their returns into the one the projection uses. */
+const PortfolioControls: React.FC<PortfolioControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  blend,
+  driftedAtTarget,
+  targetAge,
+  appliesTo,
+}) => {
+  const weightTotal = settings.blocks.reduce((sum, b) => sum + b.weight, 0);
+  const updateBlock = (index: number, patch: Partial<PortfolioBlock>) =>
+    onSettingsChange({
+      ...settings,
+      blocks: settings.blocks.map((b, i) => (i === index ? { ...b, ...patch } : b)),
+    });
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-blue-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-blue-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">🧱 Build your portfolio</span>
+          <span className="block text-xs text-gray-600">
+            Mix the blueprint&apos;s building blocks — a broad index ETF, a small tech slice and a dividend ETF. The
+            blended return after fees replaces the return for {appliesTo}.
+          </span>
+        </span>
+      </label>
+      {enabled && (
+        <div className="mt-3 flex flex-col md:flex-row gap-3">
+          <div className="flex-1 min-w-0 overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <caption className="sr-only">Portfolio building blocks</caption>
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-blue-200">
+                  <th scope="col" className="py-1.5 pr-2 font-semibold">Block</th>
+                  {FIELDS.map((f) => (
+                    <th key={f.key} scope="col" className="py-1.5 px-1 font-semibold text-center">
+                      {f.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {settings.blocks.map((block, i) => (
+                  <tr key={block.id} className="border-b border-blue-100 last:border-0">
+                    <th scope="row" className="py-1.5 pr-2 text-left font-semibold text-gray-800">
+                      <div className="flex items-center gap-1.5">
+                        <span
+                          aria-hidden="true"
+                          className="inline-block w-3 h-3 rounded-sm shrink-0"
+                          style={{ backgroundColor: blockColour(block, i) }}
+                        />
+                        {block.label}
+                      </div>
+                    </th>
+                    {FIELDS.map((f) => (
+                      <td key={f.key} className="py-1.5 px-1 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          max={f.max}
+                          step={f.step}
+                          value={block[f.key]}
+                          aria-label={`${block.label} ${f.label}`}
+                          onChange={(e) => {
+                            const num = Number(e.target.value);
+                            if (!isNaN(num)) updateBlock(i, { [f.key]: Math.max(0, Math.min(f.max, num)) });
+                          }}
+                          className="w-16 text-sm font-bold text-blue-700 text-center border border-blue-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {weightTotal !== 100 && (
+              <p className="mt-1 text-xs text-amber-700">
+                Weights add to {weightTotal}% — they&apos;re scaled to 100% for the blend.
+              </p>
+            )}
+            <label className="mt-2 flex items-center gap-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.rebalance}
+                onChange={(e) => onSettingsChange({ ...settings, rebalance: e.target.checked })}
+                className="h-4 w-4 accent-blue-600"
+              />
+              <span>Rebalance back to these weights every year</span>
+            </label>
+            <p className="mt-2 text-xs sm:text-sm text-gray-800" aria-live="polite">
+              Blended return: <strong className="text-blue-700">{blend.annualReturn.toFixed(2)}% a year</strong> after
+              fees ({blend.grossReturn.toFixed(2)}% before {blend.feePercent.toFixed(2)}% in fund fees) · volatility about{' '}
+              {blend.volatility.toFixed(1)}%.
+            </p>
+            {!settings.rebalance && (
+              <p className="mt-1 text-xs text-gray-600">
+                Left alone, by age {targetAge} the mix drifts to{' '}
+                {settings.blocks.map((b, i) => `${b.label} ${Math.round(driftedAtTarget[i] ?? 0)}%`).join(' · ')}, so the
+                return (and the risk) creeps toward the faster-growing blocks.
+              </p>
+            )}
+          </div>
+          <div
+            className="shrink-0 self-center"
+            role="img"
+            aria-label={`Allocation: ${settings.blocks.map((b) => `${b.label} ${b.weight}%`).join(', ')}`}
+          >
+            <PieChart width={140} height={140}>
+              <Pie
+                data={settings.blocks.map((b) => ({ name: b.label, value: b.weight }))}
+                dataKey="value"
+                nameKey="name"
+                startAngle={90}
+                endAngle={-270}
+                outerRadius={68}
+                stroke="#fff"
+                isAnimationActive={false}
+              >
+                {settings.blocks.map((b, i) => (
+                  <Cell key={b.id} fill={blockColour(b, i)} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value: number) => `${value}%`} />
+            </PieChart>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioControls;
@@ -0,0 +1,121 @@
+import React from 'react';
+
+/** How the chart shows the pots: one combined line, a line per pot, or a stacked area. */
+export type PotChartView = 'combined' | 'pots' | 'stacked';
+
+/** Starting balance and return for one pot, as edited on screen. */
+export type PotSettings = { initialBalance: number; annualReturn: number };
+
+type PotControlsProps = {
+  /** `returnFixed` locks a pot's return input, e.g. when the portfolio builder sets it. */
+  pots: Array<{ id: string; label: string; settings: PotSettings; finalBalance: number; returnFixed?: boolean }>;
+  onChange: (id: string, settings: PotSettings) => void;
+  /** When off, every pot uses the main return slider. */
+  separateReturns: boolean;
+  onSeparateReturnsChange: (separate: boolean) => void;
+  chartView: PotChartView;
+  onChartViewChange: (view: PotChartView) => void;
+  targetAge: number;
+};
+
+const CHART_VIEWS: Array<{ id: PotChartView; label: string }> = [
+  { id: 'combined', label: 'Combined' },
+  { id: 'pots', label: 'Line per pot' },
+  { id: 'stacked', label: 'Stacked' },
+];
+
+const numberInputClass =
+  'w-24 text-sm font-bold text-indigo-700 text-center border border-indigo-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+/** Per-pot starting balances and returns, plus how the pots are drawn on the chart. */
+const PotControls: React.FC<PotControlsProps> = ({
+  pots,
+  onChange,
+  separateReturns,
+  onSeparateReturnsChange,
+  chartView,
+  onChartViewChange,
+  targetAge,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-indigo-200 mb-3">
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">🪣 Super and personal pots</div>
+        <p className="text-xs text-gray-600">
+          Each pot keeps its own balance. Give them different starting balances and returns to see which one does the
+          heavy lifting.
+        </p>
+      </div>
+      <div className="flex rounded-lg bg-indigo-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Chart view">
+        {CHART_VIEWS.map((view) => (
+          <button
+            key={view.id}
+            type="button"
+            role="radio"
+            aria-checked={chartView === view.id}
+            onClick={() => onChartViewChange(view.id)}
+            className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+              chartView === view.id ? 'bg-indigo-600 text-white shadow' : 'text-indigo-800 hover:bg-indigo-200'
+            }`}
+          >
+            {view.label}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div className="mt-3 flex flex-col gap-2">
+      {pots.map((pot) => (
+        <div key={pot.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs sm:text-sm font-semibold text-gray-700">
+          <span className="w-16">{pot.label}</span>
+          <label className="flex items-center gap-1.5">
+            <span>Start $</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={pot.settings.initialBalance}
+              aria-label={`${pot.label} starting balance`}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onChange(pot.id, { ...pot.settings, initialBalance: Math.max(0, num) });
+              }}
+              className={numberInputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Return</span>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              step={0.5}
+              value={pot.settings.annualReturn}
+              disabled={!separateReturns || pot.returnFixed}
+              aria-label={`${pot.label} return (% per year)`}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onChange(pot.id, { ...pot.settings, annualReturn: Math.max(0, Math.min(20, num)) });
+              }}
+              className={`${numberInputClass} w-16`}
+            />
+            <span>%</span>
+          </label>
+          <span className="text-gray-800">
+            → <strong className="text-indigo-700">${pot.finalBalance.toLocaleString()}</strong> at {targetAge}
+          </span>
+        </div>
+      ))}
+      <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={separateReturns}
+          onChange={(e) => onSeparateReturnsChange(e.target.checked)}
+          className="h-4 w-4 accent-indigo-600"
+        />
+        <span>Use a different return for each pot</span>
+      </label>
+    </div>
+  </div>
+);
+
+export default PotControls;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { contributionsFromSalary, takeHomePay, type SalarySettings } from '../../projection';
+
+type SalaryControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: SalarySettings;
+  onSettingsChange: (settings: SalarySettings) => void;
+};
+
+const numberInputClass =
+  'w-16 text-sm font-bold text-lime-700 text-center border border-lime-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-lime-500';
+
+/** Income mode: super from the employer guarantee and personal savings as a share of take-home pay. */
+const SalaryControls: React.FC<SalaryControlsProps> = ({ enabled, onEnabledChange, settings, onSettingsChange }) => {
+  const firstYear = contributionsFromSalary(settings.annualSalary, settings);
+  const percentField = (key: keyof SalarySettings, label: string, max: number, step: number) => (
+    <label className="flex items-center gap-1.5">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={max}
+        step={step}
+        value={settings[key]}
+        onChange={(e) => {
+          const num = Number(e.target.value);
+          if (!isNaN(num)) onSettingsChange({ ...settings, [key]: Math.max(0, Math.min(max, num)) });
+        }}
+        className={numberInputClass}
+      />
+      <span>%</span>
+    </label>
+  );
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-lime-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-lime-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">💼 Work it out from my salary</span>
+          <span className="block text-xs text-gray-600">
+            Super comes from your employer&apos;s super guarantee and grows with your pay. Personal investing is a share
+            of what lands in your bank account. Replaces the monthly amounts and the adjust-by-age schedule.
+          </span>
+        </span>
+      </label>
+      {enabled && (
+        <div className="mt-3 flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+            <label className="flex items-center gap-1.5">
+              <span>Salary $</span>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={settings.annualSalary}
+                onChange={(e) => {
+                  const num = Number(e.target.value);
+                  if (!isNaN(num)) onSettingsChange({ ...settings, annualSalary: Math.max(0, num) });
+                }}
+                className={`${numberInputClass} w-28`}
+              />
+              <span>/yr</span>
+            </label>
+            {percentField('superGuaranteeRate', 'Super guarantee', 30, 0.5)}
+            {percentField('wageGrowth', 'Pay rises', 10, 0.5)}
+            {percentField('personalSavingsRate', 'Invest of take-home', 100, 1)}
+          </div>
+          <p className="text-xs sm:text-sm text-gray-800">
+            Year one: <strong className="text-lime-700">${firstYear.super.toLocaleString()}/mo</strong> super +{' '}
+            <strong className="text-lime-700">${firstYear.personal.toLocaleString()}/mo</strong> personal, from about $
+            {Math.round(takeHomePay(settings.annualSalary)).toLocaleString()}/yr take-home pay.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SalaryControls;
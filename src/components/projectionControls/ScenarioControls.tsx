@@ -0,0 +1,149 @@
+import React from 'react';
+
+/** Most scenarios that can be pinned at once. */
+export const MAX_SCENARIOS = 4;
+
+/** Line colours for pinned scenarios, chosen to stay clear of the chart's other series. */
+export const SCENARIO_COLOURS = ['#db2777', '#ca8a04', '#475569', '#65a30d'];
+
+/** A frozen copy of one calculator's inputs, drawn next to the live plan. */
+export type PinnedScenario<P> = {
+  id: string;
+  name: string;
+  colour: string;
+  /** One-line summary of the inputs, e.g. "$500/mo at 7%". */
+  description: string;
+  plan: P;
+};
+
+/** Final figures for one row of the comparison table, in the basis shown on screen. */
+export type ScenarioOutcome = {
+  id: string;
+  name: string;
+  colour: string;
+  description: string;
+  /** Age the plan ends at; pinned plans keep their own. */
+  endAge: number;
+  total: number;
+  contributed: number;
+  growth: number;
+};
+
+type ScenarioControlsProps = {
+  /** The live plan; always the first row of the table. */
+  current: ScenarioOutcome;
+  pinned: ScenarioOutcome[];
+  onPin: () => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+};
+
+/** First "Plan X" name not already taken. */
+export function nextScenarioName(taken: string[]): string {
+  for (let i = 0; i < 26; i++) {
+    const name = `Plan ${String.fromCharCode(65 + i)}`;
+    if (!taken.includes(name)) return name;
+  }
+  return `Plan ${taken.length + 1}`;
+}
+
+/** First colour no pinned scenario is using. */
+export function nextScenarioColour(taken: string[]): string {
+  return SCENARIO_COLOURS.find((c) => !taken.includes(c)) ?? SCENARIO_COLOURS[0];
+}
+
+/** Pin up to four versions of the plan and compare them on the chart and in a table. */
+const ScenarioControls: React.FC<ScenarioControlsProps> = ({ current, pinned, onPin, onRename, onRemove }) => {
+  const canPin = pinned.length < MAX_SCENARIOS;
+  const rows = [current, ...pinned];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-slate-200 mb-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold text-gray-800">📌 Compare scenarios</div>
+          <p className="text-xs text-gray-600">
+            Pin the current settings, change the inputs, and compare. Each pinned plan keeps its own amounts, schedule
+            and breaks, and shows as its own line on the chart.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onPin}
+          disabled={!canPin}
+          className="text-xs text-slate-700 hover:text-slate-800 font-medium px-3 py-1.5 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {canPin ? '+ Pin current plan' : `Up to ${MAX_SCENARIOS} pinned`}
+        </button>
+      </div>
+      {pinned.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <caption className="sr-only">Scenario comparison: each plan's final total at its own end age</caption>
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-slate-200">
+                <th scope="col" className="py-1.5 pr-2 font-semibold">Scenario</th>
+                <th scope="col" className="py-1.5 px-2 font-semibold text-right">Final total</th>
+                <th scope="col" className="py-1.5 px-2 font-semibold text-right">Contributed</th>
+                <th scope="col" className="py-1.5 px-2 font-semibold text-right">Growth</th>
+                <th scope="col" className="py-1.5 pl-2">
+                  <span className="sr-only">Remove</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const isCurrent = row.id === current.id;
+                return (
+                  <tr key={row.id} className="border-b border-slate-100 last:border-0 align-top">
+                    <th scope="row" className="py-1.5 pr-2 text-left font-semibold text-gray-800">
+                      <div className="flex items-center gap-1.5">
+                        <span
+                          aria-hidden="true"
+                          className="inline-block w-3 h-1 rounded-full shrink-0"
+                          style={{ backgroundColor: row.colour }}
+                        />
+                        {isCurrent ? (
+                          <span>{row.name}</span>
+                        ) : (
+                          <input
+                            type="text"
+                            value={row.name}
+                            aria-label="Scenario name"
+                            onChange={(e) => onRename(row.id, e.target.value)}
+                            className="w-28 text-sm font-bold text-slate-700 border border-slate-300 rounded px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-slate-500"
+                          />
+                        )}
+                      </div>
+                      <div className="text-xs font-medium text-gray-500">{row.description}</div>
+                    </th>
+                    <td className="py-1.5 px-2 text-right font-bold text-gray-900">
+                      ${row.total.toLocaleString()}
+                      <div className="text-xs font-medium text-gray-500">at {row.endAge}</div>
+                    </td>
+                    <td className="py-1.5 px-2 text-right text-gray-700">${row.contributed.toLocaleString()}</td>
+                    <td className="py-1.5 px-2 text-right text-gray-700">${row.growth.toLocaleString()}</td>
+                    <td className="py-1.5 pl-2 text-right">
+                      {!isCurrent && (
+                        <button
+                          type="button"
+                          onClick={() => onRemove(row.id)}
+                          aria-label={`Remove ${row.name}`}
+                          className="text-red-500 hover:text-red-700 font-bold px-1"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioControls;
@@ -0,0 +1,208 @@
+import React from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  HISTORICAL_INDICES,
+  findHistoricalIndex,
+  lastYearOf,
+  unwrappedYears,
+  type SequenceRiskResult,
+} from '../../projection';
+import { shortMoney } from '../moneyLabels';
+
+/** One year of the two drawdowns, in the basis shown on screen. */
+export type SequenceRiskRow = { age: number; forward: number; reversed: number };
+
+type SequenceRiskPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  indexId: string;
+  onIndexChange: (id: string) => void;
+  startYear: number;
+  onStartYearChange: (year: number) => void;
+  result: SequenceRiskResult | null;
+  /** Starts with the balance at `targetAge`. */
+  rows: SequenceRiskRow[];
+  /** Final balance with nothing withdrawn, in the basis shown on screen. */
+  untouchedFinal: number;
+  targetAge: number;
+  lifeExpectancy: number;
+  annualSpendingToday: number;
+  isMobile: boolean;
+};
+
+const FORWARD_COLOUR = '#7e22ce';
+const REVERSED_COLOUR = '#f59e0b';
+
+const selectClass =
+  'text-sm font-bold text-purple-800 border border-purple-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+function outcome(depletionAge: number | null, final: number): string {
+  return depletionAge === null ? `${shortMoney(final)} left` : `runs out at ${Math.floor(depletionAge)}`;
+}
+
+/**
+ * Sequence-of-returns risk: the same market years spent through in order and back to front. Same average,
+ * very different retirements once withdrawals start.
+ */
+const SequenceRiskPanel: React.FC<SequenceRiskPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  indexId,
+  onIndexChange,
+  startYear,
+  onStartYearChange,
+  result,
+  rows,
+  untouchedFinal,
+  targetAge,
+  lifeExpectancy,
+  annualSpendingToday,
+  isMobile,
+}) => {
+  const index = findHistoricalIndex(indexId);
+  const years = Array.from({ length: lastYearOf(index) - index.firstYear + 1 }, (_, i) => index.firstYear + i);
+  const wraps = result ? unwrappedYears(index, startYear) < result.returns.length : false;
+  const last = rows[rows.length - 1];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-purple-200 mb-8">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-purple-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">🔀 Sequence-of-returns risk</span>
+          <span className="block text-xs text-gray-600">
+            Takes one run of real market years and spends your age-{targetAge} balance through it twice: in the order
+            they happened, then back to front. Same returns, same average — but the order matters once you&apos;re
+            withdrawing.
+          </span>
+        </span>
+      </label>
+      {enabled && result && last && (
+        <div className="mt-3 flex flex-col gap-2 text-xs sm:text-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 font-semibold text-gray-700">
+            <label className="flex items-center gap-1.5">
+              <span>Index</span>
+              <select value={indexId} onChange={(e) => onIndexChange(e.target.value)} className={selectClass}>
+                {HISTORICAL_INDICES.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <span>Market years from</span>
+              <select
+                value={startYear}
+                onChange={(e) => onStartYearChange(Number(e.target.value))}
+                className={selectClass}
+              >
+                {years.map((y) => (
+                  <option key={y} value={y}>
+                    {y}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-gray-800" aria-live="polite">
+            Spending ${annualSpendingToday.toLocaleString()}/yr (today&apos;s $) from age {targetAge} to{' '}
+            {lifeExpectancy}, with an average return of {result.averageReturn.toFixed(1)}% (
+            {result.compoundReturn.toFixed(1)}% compound) either way. In order:{' '}
+            <strong style={{ color: FORWARD_COLOUR }}>{outcome(result.forward.depletionAge, last.forward)}</strong>.
+            Reversed:{' '}
+            <strong className="text-amber-700">{outcome(result.reversed.depletionAge, last.reversed)}</strong>. With no
+            withdrawals both orders end at exactly {shortMoney(untouchedFinal)}.
+          </p>
+          <div className="w-full" role="img" aria-label={`Balance from age ${targetAge}: returns in order vs reversed`}>
+            <ResponsiveContainer width="100%" height={isMobile ? 260 : 340}>
+              <LineChart
+                data={rows}
+                margin={{ top: 10, right: isMobile ? 10 : 24, left: isMobile ? 0 : 10, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="age"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  allowDecimals={false}
+                  tick={{ fontSize: isMobile ? 11 : 13, fill: '#111827', fontWeight: 700 }}
+                />
+                <YAxis
+                  width={isMobile ? 45 : 60}
+                  tick={{ fontSize: isMobile ? 11 : 13, fill: '#111827', fontWeight: 700 }}
+                  tickFormatter={(value: number) => shortMoney(value)}
+                />
+                <Tooltip
+                  formatter={(value: number) => `$${value.toLocaleString()}`}
+                  labelFormatter={(label) => `Age ${label}`}
+                />
+                <Legend
+                  verticalAlign="bottom"
+                  iconType="line"
+                  wrapperStyle={{ fontSize: isMobile ? '12px' : '14px' }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="forward"
+                  name={`In order (${startYear} onwards)`}
+                  stroke={FORWARD_COLOUR}
+                  strokeWidth={isMobile ? 2 : 3}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="reversed"
+                  name="Same years reversed"
+                  stroke={REVERSED_COLOUR}
+                  strokeWidth={isMobile ? 2 : 3}
+                  strokeDasharray="8 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                {result.forward.depletionAge !== null && (
+                  <ReferenceLine
+                    x={Math.floor(result.forward.depletionAge)}
+                    stroke={FORWARD_COLOUR}
+                    strokeDasharray="3 3"
+                  />
+                )}
+                {result.reversed.depletionAge !== null && (
+                  <ReferenceLine
+                    x={Math.floor(result.reversed.depletionAge)}
+                    stroke={REVERSED_COLOUR}
+                    strokeDasharray="3 3"
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[10px] sm:text-xs text-gray-500">
+            {index.description}
+            {wraps ? `; history ends in ${lastYearOf(index)}, so later years repeat from ${index.firstYear}` : ''}.
+            Spending and life expectancy come from &ldquo;Spend it in retirement&rdquo;. Past returns don&apos;t predict
+            future returns.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SequenceRiskPanel;
@@ -0,0 +1,114 @@
+import React from 'react';
+import type { MarketShock, StressTestSummary } from '../../projection';
+
+type StressTestControlsProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  crash: MarketShock;
+  onCrashChange: (crash: MarketShock) => void;
+  startAge: number;
+  targetAge: number;
+  /** Baseline vs crash run, in the basis shown on screen; null while switched off. */
+  summary: StressTestSummary | null;
+};
+
+const numberInputClass =
+  'w-16 text-sm font-bold text-red-700 text-center border border-red-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-red-500';
+
+/** One-off market fall at a chosen age, drawn against the baseline to show that staying invested still works. */
+const StressTestControls: React.FC<StressTestControlsProps> = ({
+  enabled,
+  onEnabledChange,
+  crash,
+  onCrashChange,
+  startAge,
+  targetAge,
+  summary,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-red-200 mb-3">
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onEnabledChange(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-red-600"
+      />
+      <span>
+        <span className="block text-sm font-bold text-gray-800">📉 Crash stress test</span>
+        <span className="block text-xs text-gray-600">
+          Drop every balance by a one-off market fall at a chosen age, keep contributing, and compare with the plan.
+          Endurance, not excitement.
+        </span>
+      </span>
+    </label>
+    {enabled && (
+      <div className="mt-3 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs sm:text-sm font-semibold text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <span>Fall of</span>
+            <input
+              type="number"
+              min={5}
+              max={90}
+              step={5}
+              value={crash.fallPercent}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) onCrashChange({ ...crash, fallPercent: Math.max(5, Math.min(90, num)) });
+              }}
+              className={numberInputClass}
+            />
+            <span>% at age</span>
+            <input
+              type="number"
+              min={startAge + 1}
+              max={targetAge}
+              step={1}
+              value={crash.age}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) {
+                  onCrashChange({ ...crash, age: Math.max(startAge + 1, Math.min(targetAge, Math.round(num))) });
+                }
+              }}
+              className={numberInputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            <span>Recovers over</span>
+            <input
+              type="number"
+              min={0}
+              max={15}
+              step={1}
+              value={crash.recoveryYears}
+              onChange={(e) => {
+                const num = Number(e.target.value);
+                if (!isNaN(num)) {
+                  onCrashChange({ ...crash, recoveryYears: Math.max(0, Math.min(15, Math.round(num))) });
+                }
+              }}
+              className={numberInputClass}
+            />
+            <span>years (0 = never)</span>
+          </label>
+        </div>
+        {summary && (
+          <p className="text-xs sm:text-sm text-gray-800" aria-live="polite">
+            The fall wipes <strong className="text-red-700">${summary.loss.toLocaleString()}</strong> off at age{' '}
+            {summary.crashAge}.{' '}
+            {summary.recoveredAge !== null
+              ? `Staying invested, the balance is back above its pre-crash level by age ${summary.recoveredAge}`
+              : `The balance is still below its pre-crash level at age ${targetAge}`}{' '}
+            and ends at ${summary.stressedTotal.toLocaleString()} instead of ${summary.baselineTotal.toLocaleString()}
+            {summary.shortfall > 0
+              ? ` (${summary.shortfallPercent.toFixed(0)}% less).`
+              : ' — buying cheaper after the fall more than made up for it.'}
+          </p>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default StressTestControls;
@@ -0,0 +1,76 @@
+import React from 'react';
+
+type SuperAccessControlProps = {
+  preservationAge: number;
+  onPreservationAgeChange: (age: number) => void;
+  showAccessibleLine: boolean;
+  onShowAccessibleLineChange: (show: boolean) => void;
+  targetAge: number;
+  /** Balances at `targetAge`, in the basis shown on screen. */
+  lockedAtTarget: number;
+  accessibleAtTarget: number;
+};
+
+/** Super is locked until preservation age; personal investments can be reached any time. */
+const SuperAccessControl: React.FC<SuperAccessControlProps> = ({
+  preservationAge,
+  onPreservationAgeChange,
+  showAccessibleLine,
+  onShowAccessibleLineChange,
+  targetAge,
+  lockedAtTarget,
+  accessibleAtTarget,
+}) => (
+  <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-orange-200 mb-3">
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">🔒 When can you reach it?</div>
+        <p className="text-xs text-gray-600">
+          Super is locked until your preservation age. Personal investments can be sold at any time.
+        </p>
+      </div>
+      <label className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+        <span>Preservation age</span>
+        <input
+          type="number"
+          min={55}
+          max={75}
+          step={1}
+          value={preservationAge}
+          onChange={(e) => {
+            const num = Math.round(Number(e.target.value));
+            if (!isNaN(num)) onPreservationAgeChange(Math.max(55, Math.min(75, num)));
+          }}
+          className="w-16 text-sm font-bold text-orange-700 text-center border border-orange-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-orange-500"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showAccessibleLine}
+          onChange={(e) => onShowAccessibleLineChange(e.target.checked)}
+          className="h-4 w-4 accent-orange-600"
+        />
+        <span>Show &quot;accessible now&quot; line</span>
+      </label>
+    </div>
+    <p className="mt-2 pt-2 border-t border-orange-100 text-xs sm:text-sm text-gray-800">
+      At age {targetAge}: <strong className="text-orange-700">${accessibleAtTarget.toLocaleString()}</strong> you can
+      reach{lockedAtTarget > 0 && (
+        <>
+          , <strong className="text-gray-900">${lockedAtTarget.toLocaleString()}</strong> still locked in super
+        </>
+      )}
+      .
+    </p>
+    {targetAge < preservationAge && (
+      <p role="alert" className="mt-2 rounded-lg bg-orange-50 border border-orange-300 px-3 py-2 text-xs sm:text-sm font-semibold text-orange-800">
+        ⚠️ Your target age ({targetAge}) is before your preservation age ({preservationAge}). Until then you can only
+        live off personal investments — super stays locked for another {preservationAge - targetAge} year
+        {preservationAge - targetAge === 1 ? '' : 's'}.
+      </p>
+    )}
+  </div>
+);
+
+export default SuperAccessControl;
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { ValueBasis } from '../../projection';
+
+type ValueBasisControlProps = {
+  basis: ValueBasis;
+  onBasisChange: (basis: ValueBasis) => void;
+  inflationRate: number;
+  onInflationRateChange: (rate: number) => void;
+};
+
+/** Nominal vs today's dollars toggle with the inflation rate used to deflate the chart. */
+const ValueBasisControl: React.FC<ValueBasisControlProps> = ({
+  basis,
+  onBasisChange,
+  inflationRate,
+  onInflationRateChange,
+}) => {
+  const options: Array<{ value: ValueBasis; label: string }> = [
+    { value: 'nominal', label: 'Future dollars' },
+    { value: 'real', label: "Today's dollars" },
+  ];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-sky-200 mb-3 flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-bold text-gray-800">💲 Show values in</div>
+        <p className="text-xs text-gray-600">
+          Today&apos;s dollars removes inflation, so a future balance shows what it could buy now.
+        </p>
+      </div>
+      <div className="flex rounded-lg bg-sky-100 p-0.5 gap-0.5" role="radiogroup" aria-label="Value basis">
+        {options.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            role="radio"
+            aria-checked={basis === o.value}
+            onClick={() => onBasisChange(o.value)}
+            className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-bold transition-colors ${
+              basis === o.value ? 'bg-sky-600 text-white shadow' : 'text-sky-800 hover:bg-sky-200'
+            }`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-700">
+        <span>Inflation</span>
+        <input
+          type="number"
+          min={0}
+          max={10}
+          step={0.1}
+          value={inflationRate}
+          onChange={(e) => {
+            const num = Number(e.target.value);
+            if (!isNaN(num)) onInflationRateChange(Math.max(0, Math.min(10, num)));
+          }}
+          className="w-16 text-sm font-bold text-sky-700 text-center border border-sky-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-sky-500"
+        />
+        <span>% p.a.</span>
+      </label>
+    </div>
+  );
+};
+
+export default ValueBasisControl;
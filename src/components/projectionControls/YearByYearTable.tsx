@@ -0,0 +1,177 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { YearFlow } from '../../projection';
+
+type SortKey = keyof YearFlow;
+type SortDirection = 'ascending' | 'descending';
+
+type YearByYearTableProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  rows: YearFlow[];
+  /** Heading for the money-in column ("Contributions", "Added"). */
+  contributionsLabel?: string;
+  /** Value basis of the chart, e.g. "nominal (future) dollars". */
+  basisNote: string;
+};
+
+type Column = { key: SortKey; label: string; money: boolean };
+
+/** Rows skipped by Page Up / Page Down. */
+const PAGE_ROWS = 10;
+
+function signedMoney(value: number): string {
+  return `${value < 0 ? '−' : ''}$${Math.abs(value).toLocaleString()}`;
+}
+
+/**
+ * Every projection year as a table: opening balance, contributions, growth and closing balance. Sortable by any
+ * column; arrow keys move between cells (Home/End along a row, Ctrl+Home/End to the corners, Page Up/Down by
+ * ten years). Doubles as the text alternative to the chart.
+ */
+const YearByYearTable: React.FC<YearByYearTableProps> = ({
+  enabled,
+  onEnabledChange,
+  rows,
+  contributionsLabel = 'Contributions',
+  basisNote,
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'year', direction: 'ascending' });
+  // Roving focus: one cell is in the tab order, arrows move it. Row -1 is the header row of sort buttons.
+  const [active, setActive] = useState({ row: -1, col: 0 });
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  const columns: Column[] = [
+    { key: 'year', label: 'Year', money: false },
+    { key: 'age', label: 'Age', money: false },
+    { key: 'opening', label: 'Opening balance', money: true },
+    { key: 'contributions', label: contributionsLabel, money: true },
+    { key: 'growth', label: 'Growth', money: true },
+    { key: 'closing', label: 'Closing balance', money: true },
+  ];
+
+  const sorted = useMemo(() => {
+    const sign = sort.direction === 'ascending' ? 1 : -1;
+    return [...rows].sort((a, b) => (a[sort.key] - b[sort.key]) * sign || a.year - b.year);
+  }, [rows, sort]);
+
+  const handleSort = (key: SortKey) =>
+    setSort((prev) => ({
+      key,
+      direction: prev.key === key && prev.direction === 'ascending' ? 'descending' : 'ascending',
+    }));
+
+  const moveTo = (row: number, col: number) => {
+    const next = {
+      row: Math.max(-1, Math.min(sorted.length - 1, row)),
+      col: Math.max(0, Math.min(columns.length - 1, col)),
+    };
+    setActive(next);
+    tableRef.current?.querySelector<HTMLElement>(`[data-cell="${next.row}:${next.col}"]`)?.focus();
+  };
+
+  // Kept in range when a shorter projection removes the focused row, so the table stays reachable by Tab
+  const current = { row: Math.min(active.row, sorted.length - 1), col: active.col };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    const { row, col } = current;
+    const inBody = row >= 0;
+    // Page Up/Down and Ctrl+End only page through body cells; from the header row they do nothing
+    const moves: Record<string, [number, number] | null> = {
+      ArrowUp: [row - 1, col],
+      ArrowDown: [row + 1, col],
+      ArrowLeft: [row, col - 1],
+      ArrowRight: [row, col + 1],
+      Home: e.ctrlKey ? [-1, 0] : [row, 0],
+      End: e.ctrlKey ? (inBody ? [sorted.length - 1, columns.length - 1] : null) : [row, columns.length - 1],
+      PageUp: inBody ? [Math.max(0, row - PAGE_ROWS), col] : null,
+      PageDown: inBody ? [row + PAGE_ROWS, col] : null,
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    moveTo(move[0], move[1]);
+  };
+
+  const cellProps = (row: number, col: number) => ({
+    'data-cell': `${row}:${col}`,
+    tabIndex: current.row === row && current.col === col ? 0 : -1,
+    onFocus: () => setActive({ row, col }),
+  });
+
+  const cellClass = 'py-1 px-2 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-neutral-500';
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-xl p-3 sm:p-4 shadow-md border-2 border-neutral-200 mb-3">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mt-1 h-4 w-4 accent-neutral-600"
+        />
+        <span>
+          <span className="block text-sm font-bold text-gray-800">📋 Year-by-year table</span>
+          <span className="block text-xs text-gray-600">
+            Every year of the chart as numbers: what you started with, what went in, what grew and where it ended.
+          </span>
+        </span>
+      </label>
+      {enabled && (
+        <div className="mt-3 max-h-96 overflow-auto rounded-lg border border-neutral-200">
+          <table ref={tableRef} className="w-full text-xs sm:text-sm tabular-nums" onKeyDown={handleKeyDown}>
+            <caption className="caption-bottom p-2 text-left text-[10px] sm:text-xs text-gray-500">
+              Year-by-year projection in {basisNote}. Growth is after fees; {contributionsLabel.toLowerCase()} include
+              lump sums, with withdrawals shown as negative. Arrow keys move between cells; the column headings sort.
+            </caption>
+            <thead className="sticky top-0 bg-neutral-100">
+              <tr className="text-gray-700 border-b border-neutral-300">
+                {columns.map((c, col) => (
+                  <th
+                    key={c.key}
+                    scope="col"
+                    aria-sort={sort.key === c.key ? sort.direction : 'none'}
+                    className={`py-1.5 px-2 font-semibold ${c.money ? 'text-right' : 'text-left'}`}
+                  >
+                    <button
+                      type="button"
+                      {...cellProps(-1, col)}
+                      onClick={() => handleSort(c.key)}
+                      className="inline-flex items-center gap-1 font-semibold rounded px-0.5 hover:text-neutral-900 focus:outline-none focus:ring-2 focus:ring-neutral-500"
+                    >
+                      {c.label}
+                      <span aria-hidden="true" className="text-[10px]">
+                        {sort.key !== c.key ? '↕' : sort.direction === 'ascending' ? '▲' : '▼'}
+                      </span>
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((r, row) => (
+                <tr key={r.year} className="border-b border-neutral-100 last:border-0 odd:bg-white even:bg-neutral-50">
+                  <th scope="row" {...cellProps(row, 0)} className={`${cellClass} text-left font-semibold text-gray-800`}>
+                    {r.year}
+                  </th>
+                  {columns.slice(1).map((c, i) => (
+                    <td
+                      key={c.key}
+                      {...cellProps(row, i + 1)}
+                      className={`${cellClass} ${c.money ? 'text-right' : 'text-left'} ${
+                        c.key === 'closing' ? 'font-bold text-gray-900' : r[c.key] < 0 ? 'text-red-700' : 'text-gray-700'
+                      }`}
+                    >
+                      {c.money ? signedMoney(r[c.key]) : r[c.key]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default YearByYearTable;
@@ -1,36 +1,248 @@
-export type FamilyChartRow = { age: number; total: number; contributed: number; growth: number };
+import {
+  describeBreak,
+  describeCompounding,
+  describeReturnSchedule,
+  describeValueBasis,
+  findFrequency,
+  type CompoundingConvention,
+  type ContributionBreak,
+  type ContributionFrequency,
+  type ContributionIndexation,
+  type CostOfWaiting,
+  type DrawdownYear,
+  type FeeSummary,
+  type GoalSolveMode,
+  type MarketShock,
+  type Milestone,
+  type MonteCarloSettings,
+  type PercentileBand,
+  type PortfolioBlend,
+  type PortfolioBlock,
+  type PotFees,
+  type PotSnapshot,
+  type ProjectionYear,
+  type ReturnScheduleEntry,
+  type SalarySettings,
+  type StressTestSummary,
+  type ValueBasis,
+} from '../../projection';
+import { pieChartSvg } from './pieChartSvg';
+
+export type FamilyChartRow = ProjectionYear;
+
+/** Seeded simulation shown on the chart, repeated in the report with the same seed. */
+export type MonteCarloReport = {
+  settings: MonteCarloSettings;
+  bands: PercentileBand[];
+  targetBalance: number;
+  probability: number;
+};
+
+/** Historical replay summary; finals are in the report's value basis. */
+export type BacktestReport = {
+  indexLabel: string;
+  startYears: number;
+  worst: { startYear: number; final: number };
+  median: { startYear: number; final: number };
+  best: { startYear: number; final: number };
+  overlayYear: number | null;
+};
+
+/** Spending phase after the target age; rows are in the report's value basis. */
+export type DrawdownReport = {
+  lifeExpectancy: number;
+  annualSpendingToday: number;
+  indexSpending: boolean;
+  postRetirementReturn: number;
+  depletionAge: number | null;
+  /** Spending left unpaid before super unlocks (report's value basis), from `accessGapAge`. */
+  accessGap: number;
+  accessGapAge: number | null;
+  sustainableSpendToday: number;
+  rows: DrawdownYear[];
+};
+
+/** One run of market years spent through in order and reversed; balances are in the report's value basis. */
+export type SequenceRiskReport = {
+  indexLabel: string;
+  startYear: number;
+  averageReturn: number;
+  compoundReturn: number;
+  annualSpendingToday: number;
+  lifeExpectancy: number;
+  forwardDepletionAge: number | null;
+  reversedDepletionAge: number | null;
+  /** Final balance with nothing withdrawn, the same in both orders. */
+  untouchedFinal: number;
+  /** Starts with the balance at the target age. */
+  rows: Array<{ age: number; forward: number; reversed: number }>;
+};
+
+/** One pot's settings and its position at the target age (in the report's value basis). */
+export type PotReport = {
+  label: string;
+  initialBalance: number;
+  annualReturn: number;
+  final: PotSnapshot | null;
+};
+
+/** One lump sum as entered, with any part of a withdrawal the balance couldn't cover. */
+export type LumpSumReport = {
+  age: number;
+  potLabel: string;
+  label: string;
+  /** Positive = deposit, negative = withdrawal. */
+  amount: number;
+  shortfall: number;
+};
+
+/** One row of the scenario comparison; figures are in the report's value basis. */
+export type ScenarioReport = {
+  name: string;
+  /** Line colour on the chart snapshot. */
+  colour: string;
+  description: string;
+  /** Age the plan ends at; pinned plans keep their own. */
+  endAge: number;
+  total: number;
+  contributed: number;
+  growth: number;
+};
+
+/** Dividend split of the return; totals are in the report's value basis. */
+export type DividendReport = {
+  /** Yield the projection used, i.e. already capped at the return. */
+  yieldPercent: number;
+  /** False when personal dividends are taken as cash (super always reinvests). */
+  reinvest: boolean;
+  /** Cumulative dividends paid by the target age. */
+  totalDividends: number;
+  /** Yearly dividends the portfolio would pay at the target age. */
+  passiveIncome: number;
+};
+
+/** ETF building blocks behind the blended return; `colour` matches the on-screen pie. */
+export type PortfolioReport = {
+  blocks: Array<PortfolioBlock & { colour: string }>;
+  rebalance: boolean;
+  blend: PortfolioBlend;
+  /** Percent share of each block by the target age without rebalancing. */
+  driftedAtTarget: number[];
+};
+
+/** Crash stress test; totals are in the report's value basis. */
+export type StressTestReport = MarketShock & StressTestSummary;
+
+/** Goal solver answer; `requiredBalance` is in the report's value basis. */
+export type GoalReport = {
+  targetKind: 'balance' | 'income';
+  target: number;
+  withdrawalRate: number;
+  requiredBalance: number;
+  solveFor: GoalSolveMode;
+  /** $ per payment, % p.a. or age, depending on `solveFor`; null when out of reach. */
+  result: number | null;
+};
+
+/** Which chart view was on screen when the snapshot was taken. */
+export type ReportChartMode = 'lines' | 'stacked' | 'log' | 'growthShare';
 
 export type FamilyReportInput = {
   generatedAt: string;
   startAge: number;
   targetAge: number;
   initialInvestment: number;
+  pots: PotReport[];
+  /** The chart snapshot draws each pot (as lines or stacked areas). */
+  showPotsOnChart: boolean;
+  /** Super is locked until this age; personal is always accessible. */
+  preservationAge: number;
+  accessibleAtTarget: number;
+  showAccessibleLine: boolean;
+  /** Income mode settings; `monthlySuper`/`monthlyPersonal` are then the year-one amounts. */
+  salary: SalarySettings | null;
+  /** Amounts per payment at `contributionFrequency`. */
   monthlySuper: number;
   monthlyPersonal: number;
+  contributionFrequency: ContributionFrequency;
   annualReturn: number;
+  compounding: CompoundingConvention;
   finalAmount: number;
   totalContributed: number;
   totalGrowth: number;
+  /** Taken out by lump-sum withdrawals; not deducted from `totalContributed`. */
+  totalWithdrawn: number;
+  feesSuper: PotFees;
+  feesPersonal: PotFees;
+  feeSummary: FeeSummary;
+  dividends: DividendReport | null;
+  portfolio: PortfolioReport | null;
+  /** Return by age (glide path); empty for a flat return. */
+  returnSchedule: ReturnScheduleEntry[];
+  stressTest: StressTestReport | null;
+  /** Flagged on the chart snapshot and listed under it. */
+  milestones: Milestone[];
+  /** Basis the chart data and totals are expressed in. */
+  valueBasis: ValueBasis;
+  inflationRate: number;
+  chartMode: ReportChartMode;
   chartData: FamilyChartRow[];
+  monteCarlo: MonteCarloReport | null;
+  backtest: BacktestReport | null;
+  /** Yearly contribution increase, when enabled. */
+  indexation: ContributionIndexation | null;
+  lumpSums: LumpSumReport[];
+  goal: GoalReport | null;
+  /** Same plan started later; totals are in the report's value basis. */
+  costOfWaiting: CostOfWaiting;
+  showDelayLine: boolean;
+  /** Live plan first, then the pinned scenarios; empty when nothing is pinned. */
+  scenarios: ScenarioReport[];
+  drawdown: DrawdownReport | null;
+  sequenceRisk: SequenceRiskReport | null;
   showAdvancedContributions: boolean;
   contributionSchedule: Array<{ age: number; amountSuper: number; amountPersonal: number }>;
   showTakeABreak: boolean;
-  breakPeriodsSuper: Array<{ fromAge: number; toAge: number }>;
-  breakPeriodsPersonal: Array<{ fromAge: number; toAge: number }>;
+  breakPeriodsSuper: ContributionBreak[];
+  breakPeriodsPersonal: ContributionBreak[];
   /** PNG data URL of the on-screen chart (optional). */
   chartImageDataUrl: string | null;
 };
 
-function sampleRows(data: FamilyChartRow[]): FamilyChartRow[] {
+function sampleRows<T extends { age: number }>(data: T[]): T[] {
   if (data.length <= 18) return data;
   const step = Math.max(1, Math.floor(data.length / 16));
-  const out: FamilyChartRow[] = [];
+  const out: T[] = [];
   for (let i = 0; i < data.length; i += step) out.push(data[i]);
   const last = data[data.length - 1];
   if (out[out.length - 1]?.age !== last.age) out.push(last);
   return out;
 }
 
+function describeFees(fees: PotFees): string {
+  if (fees.feePercent <= 0 && fees.fixedFeeAnnual <= 0) return 'None';
+  return `${fees.feePercent}% p.a. + $${fees.fixedFeeAnnual.toLocaleString()}/yr`;
+}
+
+function describeIndexation(indexation: ContributionIndexation | null, unit: string): string {
+  if (!indexation || indexation.ratePercent <= 0) return 'None';
+  const cap = indexation.capMonthly > 0 ? `, up to $${indexation.capMonthly.toLocaleString()}/${unit}` : '';
+  return `+${indexation.ratePercent}% per year${cap}`;
+}
+
+function describeLumpSum(l: LumpSumReport): string {
+  const what = `${l.amount < 0 ? 'Take out' : 'Add'} $${Math.abs(l.amount).toLocaleString()} ${l.amount < 0 ? 'from' : 'to'} ${l.potLabel}`;
+  const shortfall = l.shortfall > 0 ? ` — $${Math.round(l.shortfall).toLocaleString()} more than the balance, not paid` : '';
+  return `${what}${l.label ? ` (${l.label})` : ''}${shortfall}`;
+}
+
+function describeGoalResult(goal: GoalReport, targetAge: number, unit: string): string {
+  if (goal.result === null) return 'Not reachable with the current plan.';
+  if (goal.solveFor === 'monthly') return `Invest $${goal.result.toLocaleString()} a ${unit} in total to reach it by age ${targetAge}.`;
+  if (goal.solveFor === 'return') return `Needs about ${goal.result}% a year to reach it by age ${targetAge}.`;
+  return `Reached at age ${goal.result} with the current plan.`;
+}
+
 function esc(s: string): string {
   return s
     .replace(/&/g, '&amp;')
@@ -55,17 +267,76 @@ export function buildFamilyReportHtml(input: FamilyReportInput): string {
 
   const breaksSuper =
     input.showTakeABreak && input.breakPeriodsSuper.length > 0
-      ? input.breakPeriodsSuper.map((b) => `Super pause: age ${b.fromAge}–${b.toAge}`).join('; ')
+      ? input.breakPeriodsSuper.map((b) => describeBreak(b, 'super')).join('; ')
       : '—';
   const breaksPersonal =
     input.showTakeABreak && input.breakPeriodsPersonal.length > 0
-      ? input.breakPeriodsPersonal.map((b) => `Personal pause: age ${b.fromAge}–${b.toAge}`).join('; ')
+      ? input.breakPeriodsPersonal.map((b) => describeBreak(b, 'personal')).join('; ')
       : '—';
 
+  const showFeeDrag = input.feeSummary.feeDrag > 0;
+  const showWithdrawn = input.totalWithdrawn > 0;
+  const frequency = findFrequency(input.contributionFrequency);
+  const unit = frequency.unit;
+
+  const returns = input.pots.map((p) => p.annualReturn);
+  const returnLabel = returns.every((r) => r === input.annualReturn)
+    ? `${input.annualReturn}%`
+    : input.pots.map((p) => `${p.label} ${p.annualReturn}%`).join(' · ');
+
+  const potRows = input.pots
+    .map(
+      (p) =>
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${esc(p.label)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${p.initialBalance.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${p.annualReturn}%</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${(p.final?.contributed ?? 0).toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${(p.final?.growth ?? 0).toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right"><strong>$${(p.final?.balance ?? 0).toLocaleString()}</strong></td></tr>`
+    )
+    .join('');
+
+  const scenarioRows = input.scenarios
+    .map(
+      (sc) =>
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb"><span style="display:inline-block;width:14px;height:4px;border-radius:2px;margin-right:6px;vertical-align:middle;background:${sc.colour}"></span><strong>${esc(sc.name)}</strong><div style="font-size:11px;color:#6b7280">${esc(sc.description)}</div></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right"><strong>$${sc.total.toLocaleString()}</strong><div style="font-size:11px;color:#6b7280">at ${sc.endAge}</div></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${sc.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${sc.growth.toLocaleString()}</td></tr>`
+    )
+    .join('');
+
+  const portfolioRows = (input.portfolio?.blocks ?? [])
+    .map(
+      (b) =>
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb"><span style="display:inline-block;width:10px;height:10px;border-radius:2px;margin-right:6px;vertical-align:middle;background:${b.colour}"></span>${esc(b.label)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right"><strong>${b.weight}%</strong></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.annualReturn}%</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.volatility}%</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.feePercent}%</td></tr>`
+    )
+    .join('');
+
+  const monteCarloRows = input.monteCarlo
+    ? sampleRows(input.monteCarlo.bands)
+        .map(
+          (b) =>
+            `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(b.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p10.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p50.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p90.toLocaleString()}</td></tr>`
+        )
+        .join('')
+    : '';
+
+  const drawdownRows = input.drawdown
+    ? sampleRows(input.drawdown.rows)
+        .map(
+          (r) =>
+            `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.opening.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.withdrawn.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.growth.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.closing.toLocaleString()}</td></tr>`
+        )
+        .join('')
+    : '';
+
+  const sequenceRows = input.sequenceRisk
+    ? input.sequenceRisk.rows
+        .filter((_, i, all) => i % 5 === 0 || i === all.length - 1)
+        .map(
+          (r) =>
+            `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(0)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.forward.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.reversed.toLocaleString()}</td></tr>`
+        )
+        .join('')
+    : '';
+
   const projectionRows = rows
     .map(
       (r) =>
-        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.total.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.growth.toLocaleString()}</td></tr>`
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.total.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.growth.toLocaleString()}</td>${showWithdrawn ? `<td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.withdrawn.toLocaleString()}</td>` : ''}${showFeeDrag ? `<td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${(r.feeDrag ?? 0).toLocaleString()}</td>` : ''}</tr>`
     )
     .join('');
 
@@ -87,7 +358,7 @@ export function buildFamilyReportHtml(input: FamilyReportInput): string {
     .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 10px 20px; font-size: 14px; }
     .grid div { border-bottom: 1px solid #e5e7eb; padding-bottom: 8px; }
     .grid strong { display: block; font-size: 11px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.04em; margin-bottom: 2px; }
-    .highlight { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin: 18px 0; }
+    .highlight { display: grid; grid-template-columns: repeat(auto-fit, minmax(0, 1fr)); gap: 12px; margin: 18px 0; }
     .stat { background: #fff; border: 1px solid #e5e7eb; border-radius: 10px; padding: 14px; text-align: center; break-inside: avoid; page-break-inside: avoid; }
     .stat .n { font-size: 20px; font-weight: 800; color: #1d4ed8; }
     .stat .l { font-size: 11px; color: #6b7280; margin-top: 4px; text-transform: uppercase; letter-spacing: 0.04em; }
@@ -115,21 +386,22 @@ export function buildFamilyReportHtml(input: FamilyReportInput): string {
   <div class="wrap">
     <div class="hero">
       <h1>Family Wealth Blueprint</h1>
-      <p>Projection report · ${esc(input.generatedAt)}</p>
+      <p>Projection report · ${esc(input.generatedAt)} · ${esc(describeValueBasis(input.valueBasis, input.inflationRate))}</p>
     </div>
 
     <div class="highlight">
       <div class="stat"><div class="n">$${input.finalAmount.toLocaleString()}</div><div class="l">Total at age ${input.targetAge}</div></div>
       <div class="stat"><div class="n">$${input.totalContributed.toLocaleString()}</div><div class="l">Total contributed</div></div>
       <div class="stat"><div class="n">$${input.totalGrowth.toLocaleString()}</div><div class="l">Growth (illustrative)</div></div>
+      ${showWithdrawn ? `<div class="stat"><div class="n">$${input.totalWithdrawn.toLocaleString()}</div><div class="l">Withdrawn</div></div>` : ''}
     </div>
 
     <div class="chart-card">
       <h2>Growth chart</h2>
       ${
         input.chartImageDataUrl
-          ? `<figure class="chart-figure"><img src="${input.chartImageDataUrl}" alt="Wealth projection chart: total value and amount invested by age"/></figure>
-      <p class="chart-note">Snapshot from your calculator (blue = total value, green = invested). Sized to fit one page clearly.</p>`
+          ? `<figure class="chart-figure"><img src="${input.chartImageDataUrl}" alt="Wealth projection chart: ${input.chartMode === 'stacked' ? 'amount invested and growth stacked' : 'total value and amount invested'} by age"/></figure>
+      <p class="chart-note">Snapshot from your calculator (${input.chartMode === 'stacked' ? `green area = invested${showWithdrawn ? ' less withdrawals' : ''}, blue area = growth on top${input.chartData.some((r) => r.total < r.contributed - r.withdrawn) ? ', red = lost from what went in' : ''}` : 'blue = total value, green = invested'}${input.showPotsOnChart ? ', cyan = super, indigo = personal' : ''}${input.showAccessibleLine ? ', orange dotted = accessible now' : ''}).${showFeeDrag ? ' Red dashed = fee drag.' : ''}${breaksSuper !== '—' || breaksPersonal !== '—' ? ' Shaded = contribution breaks.' : ''}${input.dividends ? ' Sky dotted = cumulative dividends.' : ''}${input.stressTest ? ` Dark red dash-dot = after a ${input.stressTest.fallPercent}% crash at ${input.stressTest.crashAge}.` : ''}${input.monteCarlo ? ' Purple band = simulated 10th–90th percentile range, solid purple line = median.' : ''}${input.backtest?.overlayYear != null ? ` Amber = history from ${input.backtest.overlayYear}.` : ''}${input.lumpSums.length > 0 ? ' Dots = lump sums.' : ''}${scheduleRows ? ' Thin blue lines = contribution changes.' : ''}${input.milestones.length > 0 ? ` Amber rings = milestones: ${input.milestones.map((m) => `${m.label} at ${m.age}`).join(' · ')}.` : ''}${input.showDelayLine ? ` Rose dashed = starting ${input.costOfWaiting.delayYears} years later.` : ''}${input.drawdown ? ' Teal = balance while spending.' : ''}${input.scenarios.length > 0 ? ' Other coloured lines = pinned scenarios.' : ''}${input.chartMode === 'log' ? ' Log scale: each gridline is 10× the one below.' : ''}${input.chartMode === 'growthShare' ? ' Dotted olive (right axis) = % of balance from growth.' : ''} Sized to fit one page clearly.</p>`
           : `<p class="chart-note">Chart snapshot was not available. Use the on-screen graph for the full visual.</p>`
       }
     </div>
@@ -139,27 +411,173 @@ export function buildFamilyReportHtml(input: FamilyReportInput): string {
       <div class="grid">
         <div><strong>Current age</strong>${input.startAge}</div>
         <div><strong>Target age</strong>${input.targetAge}</div>
-        <div><strong>Initial amount</strong>$${input.initialInvestment.toLocaleString()}</div>
-        <div><strong>Return (p.a.)</strong>${input.annualReturn}%</div>
-        <div><strong>Super / month</strong>$${input.monthlySuper.toLocaleString()}</div>
-        <div><strong>Personal / month</strong>$${input.monthlyPersonal.toLocaleString()}</div>
-        <div><strong>Combined / month</strong>$${monthlyTotal.toLocaleString()}</div>
+        <div><strong>Starting balances</strong>${esc(input.pots.map((p) => `${p.label} $${p.initialBalance.toLocaleString()}`).join(' · '))}</div>
+        <div><strong>Return (p.a.)</strong>${esc(returnLabel)}</div>
+        ${
+          input.returnSchedule.length > 0
+            ? `<div><strong>Return by age</strong>${esc(describeReturnSchedule(input.returnSchedule, input.annualReturn))}</div>`
+            : ''
+        }
+        <div><strong>Compounding</strong>${esc(describeCompounding(input.compounding))}</div>
+        <div><strong>Super preservation age</strong>${input.preservationAge}</div>
+        <div><strong>Values shown in</strong>${esc(describeValueBasis(input.valueBasis, input.inflationRate))}</div>
+        ${
+          input.salary
+            ? `<div><strong>Salary</strong>$${input.salary.annualSalary.toLocaleString()}/yr, rising ${input.salary.wageGrowth}% p.a.</div>
+        <div><strong>Super guarantee</strong>${input.salary.superGuaranteeRate}% of salary</div>
+        <div><strong>Personal investing</strong>${input.salary.personalSavingsRate}% of take-home pay</div>`
+            : ''
+        }
+        <div><strong>Contributions paid</strong>${frequency.label}</div>
+        <div><strong>Super / ${unit}${input.salary ? ' (year one)' : ''}</strong>$${input.monthlySuper.toLocaleString()}</div>
+        <div><strong>Personal / ${unit}${input.salary ? ' (year one)' : ''}</strong>$${input.monthlyPersonal.toLocaleString()}</div>
+        <div><strong>Combined / ${unit}${input.salary ? ' (year one)' : ''}</strong>$${monthlyTotal.toLocaleString()}</div>
+        <div><strong>Contribution increases</strong>${esc(describeIndexation(input.indexation, unit))}</div>
+        <div><strong>Fees (super)</strong>${esc(describeFees(input.feesSuper))}</div>
+        <div><strong>Fees (personal)</strong>${esc(describeFees(input.feesPersonal))}</div>
+        ${
+          input.dividends
+            ? `<div><strong>Dividend yield</strong>${input.dividends.yieldPercent}% p.a., ${input.dividends.reinvest ? 'reinvested' : 'personal taken as cash, super reinvested'}</div>`
+            : ''
+        }
         <div><strong>Breaks (super)</strong>${esc(breaksSuper)}</div>
         <div><strong>Breaks (personal)</strong>${esc(breaksPersonal)}</div>
+        ${input.lumpSums
+          .map(
+            (l) =>
+              `<div${l.shortfall > 0 ? ' style="color:#b91c1c"' : ''}><strong>Lump sum at age ${l.age}</strong>${esc(describeLumpSum(l))}</div>`
+          )
+          .join('')}
       </div>
     </div>
 
+    ${
+      input.goal
+        ? `<div class="card"><h2>Your goal</h2>
+      <p style="margin:0;font-size:14px">${
+        input.goal.targetKind === 'income'
+          ? `An income of $${input.goal.target.toLocaleString()}/yr at a ${input.goal.withdrawalRate}% withdrawal rate needs a balance of $${input.goal.requiredBalance.toLocaleString()}.`
+          : `Target balance: $${input.goal.requiredBalance.toLocaleString()}.`
+      } <strong>${esc(describeGoalResult(input.goal, input.targetAge, unit))}</strong></p></div>`
+        : ''
+    }
+
+    <div class="card">
+      <h2>Cost of waiting</h2>
+      <p style="margin:0;font-size:14px">Starting now: <strong>$${input.costOfWaiting.nowTotal.toLocaleString()}</strong> at age ${input.targetAge}. The same plan started ${input.costOfWaiting.delayYears} ${input.costOfWaiting.delayYears === 1 ? 'year' : 'years'} later: $${input.costOfWaiting.delayedTotal.toLocaleString()}.
+      Waiting costs <strong>$${input.costOfWaiting.cost.toLocaleString()}</strong> (${input.costOfWaiting.costPercent.toFixed(1)}% of the final balance).</p>
+    </div>
+
+    ${
+      input.scenarios.length > 0
+        ? `<div class="card"><h2>Scenario comparison</h2>
+      <table><thead><tr><th>Scenario</th><th class="r">Final total</th><th class="r">Contributed</th><th class="r">Growth</th></tr></thead><tbody>${scenarioRows}</tbody></table></div>`
+        : ''
+    }
+    <div class="card">
+      <h2>Super and personal at age ${input.targetAge}</h2>
+      <p style="margin:0 0 10px;font-size:13px">At age ${input.targetAge}, <strong>$${input.accessibleAtTarget.toLocaleString()}</strong> can be reached${input.finalAmount > input.accessibleAtTarget ? ` and $${(input.finalAmount - input.accessibleAtTarget).toLocaleString()} is still locked in super until age ${input.preservationAge}` : ''}.</p>
+      ${input.targetAge < input.preservationAge ? `<p style="margin:0 0 10px;font-size:13px;color:#9a3412"><strong>Note:</strong> the target age (${input.targetAge}) is before the super preservation age (${input.preservationAge}), so only personal investments are available until then.</p>` : ''}
+      <table><thead><tr><th>Pot</th><th class="r">Start</th><th class="r">Return</th><th class="r">Contributed</th><th class="r">Growth</th><th class="r">Balance</th></tr></thead><tbody>${potRows}</tbody></table>
+    </div>
+
+    ${
+      showFeeDrag
+        ? `<div class="card"><h2>Cost of fees</h2>
+      <p style="margin:0;font-size:14px">Fees reduce the balance at age ${input.targetAge} by <strong>$${input.feeSummary.feeDrag.toLocaleString()}</strong> —
+      ${input.feeSummary.feeDragPercent.toFixed(1)}% lower than the same plan with zero fees. That is $${input.feeSummary.totalFees.toLocaleString()} paid in fees plus the growth that money would have earned.</p></div>`
+        : ''
+    }
+
+    ${
+      input.dividends
+        ? `<div class="card"><h2>Dividends and passive income</h2>
+      <p style="margin:0;font-size:14px">${input.dividends.yieldPercent}% a year of the return is paid as dividends; the rest is capital growth.
+      By age ${input.targetAge}, $${input.dividends.totalDividends.toLocaleString()} in dividends has been ${input.dividends.reinvest ? 'reinvested' : 'paid (personal dividends taken as cash)'}.
+      At that point the portfolio would pay about <strong>$${input.dividends.passiveIncome.toLocaleString()} a year</strong> ($${Math.round(input.dividends.passiveIncome / 12).toLocaleString()} a month) in passive income without selling anything.</p></div>`
+        : ''
+    }
+
+    ${
+      input.portfolio
+        ? `<div class="card"><h2>Portfolio mix</h2>
+      <div style="display:flex;gap:16px;align-items:center">
+        <div style="flex-shrink:0">${pieChartSvg(input.portfolio.blocks.map((b) => ({ label: b.label, value: b.weight, colour: b.colour })))}</div>
+        <div style="flex:1;min-width:0"><table><thead><tr><th>Block</th><th class="r">Weight</th><th class="r">Return</th><th class="r">Volatility</th><th class="r">Fee</th></tr></thead><tbody>${portfolioRows}</tbody></table></div>
+      </div>
+      <p style="margin:10px 0 0;font-size:13px">Blended return for the personal pot: <strong>${input.portfolio.blend.annualReturn.toFixed(2)}% a year</strong> after fees (${input.portfolio.blend.grossReturn.toFixed(2)}% before ${input.portfolio.blend.feePercent.toFixed(2)}% in fund fees), volatility about ${input.portfolio.blend.volatility.toFixed(1)}%.
+      ${
+        input.portfolio.rebalance
+          ? 'Rebalanced back to these weights every year.'
+          : `Not rebalanced: by age ${input.targetAge} the mix drifts to ${esc(input.portfolio.blocks.map((b, i) => `${b.label} ${Math.round(input.portfolio?.driftedAtTarget[i] ?? 0)}%`).join(' · '))}.`
+      }</p></div>`
+        : ''
+    }
+
+    ${
+      input.stressTest
+        ? `<div class="card"><h2>Market crash stress test</h2>
+      <p style="margin:0;font-size:14px">A ${input.stressTest.fallPercent}% market fall at age ${input.stressTest.crashAge} wipes <strong>$${input.stressTest.loss.toLocaleString()}</strong> off the balance${input.stressTest.recoveryYears > 0 ? `, with prices recovering over ${input.stressTest.recoveryYears} years` : ' and prices never recover'}.
+      ${input.stressTest.recoveredAge !== null ? `Staying invested and contributing, the balance is back above its pre-crash level by age ${input.stressTest.recoveredAge}.` : `The balance is still below its pre-crash level at age ${input.targetAge}.`}
+      It ends at <strong>$${input.stressTest.stressedTotal.toLocaleString()}</strong> instead of $${input.stressTest.baselineTotal.toLocaleString()}${input.stressTest.shortfall > 0 ? ` (${input.stressTest.shortfallPercent.toFixed(0)}% less)` : ' — buying cheaper after the fall more than made up for it'}.
+      Endurance, not excitement: the plan survives by not selling.</p></div>`
+        : ''
+    }
+
+    ${
+      input.monteCarlo
+        ? `<div class="card"><h2>Market ups and downs (simulation)</h2>
+      <p style="margin:0 0 10px;font-size:13px">${input.monteCarlo.settings.paths.toLocaleString()} simulated paths · average return ${input.monteCarlo.settings.meanReturn}% · volatility ${input.monteCarlo.settings.volatility}% · seed ${input.monteCarlo.settings.seed}.
+      <strong>${Math.round(input.monteCarlo.probability)}%</strong> of paths reach $${input.monteCarlo.targetBalance.toLocaleString()} by age ${input.targetAge}.</p>
+      <table><thead><tr><th>Age</th><th class="r">10th percentile</th><th class="r">Median</th><th class="r">90th percentile</th></tr></thead><tbody>${monteCarloRows}</tbody></table></div>`
+        : ''
+    }
+
+    ${
+      input.backtest
+        ? `<div class="card"><h2>Replaying history</h2>
+      <p style="margin:0 0 10px;font-size:13px">This plan replayed through ${esc(input.backtest.indexLabel)} returns for ${input.backtest.startYears} historical start years.${input.backtest.overlayYear !== null ? ` The chart shows the run starting in ${input.backtest.overlayYear}.` : ''}</p>
+      <div class="grid">
+        <div><strong>Worst (started ${input.backtest.worst.startYear})</strong>$${input.backtest.worst.final.toLocaleString()}</div>
+        <div><strong>Median (started ${input.backtest.median.startYear})</strong>$${input.backtest.median.final.toLocaleString()}</div>
+        <div><strong>Best (started ${input.backtest.best.startYear})</strong>$${input.backtest.best.final.toLocaleString()}</div>
+      </div></div>`
+        : ''
+    }
+
+    ${
+      input.drawdown
+        ? `<div class="card"><h2>Spending in retirement</h2>
+      <p style="margin:0 0 10px;font-size:13px">Spending $${input.drawdown.annualSpendingToday.toLocaleString()}/yr in today's dollars from age ${input.targetAge}${input.drawdown.indexSpending ? `, rising with inflation (${input.inflationRate}% p.a.)` : ', fixed in dollars'}, earning ${input.drawdown.postRetirementReturn}% p.a.
+      ${input.drawdown.depletionAge === null ? `The money lasts past age <strong>${input.drawdown.lifeExpectancy}</strong>.` : `The money runs out at age <strong>${Math.floor(input.drawdown.depletionAge)}</strong>.`}
+      ${input.drawdown.accessGapAge !== null ? `Super stays locked until ${input.preservationAge}: from age <strong>${Math.floor(input.drawdown.accessGapAge)}</strong> the personal pot can't cover the spending, leaving about <strong>$${input.drawdown.accessGap.toLocaleString()}</strong> unpaid before super opens.` : ''}
+      The most you could spend and last until ${input.drawdown.lifeExpectancy} is <strong>$${input.drawdown.sustainableSpendToday.toLocaleString()}</strong>/yr in today's dollars.</p>
+      <table><thead><tr><th>Age</th><th class="r">Opening</th><th class="r">Spent</th><th class="r">Growth</th><th class="r">Closing</th></tr></thead><tbody>${drawdownRows}</tbody></table></div>`
+        : ''
+    }
+
+    ${
+      input.sequenceRisk
+        ? `<div class="card"><h2>Sequence-of-returns risk</h2>
+      <p style="margin:0 0 10px;font-size:13px">The same ${esc(input.sequenceRisk.indexLabel)} years from ${input.sequenceRisk.startYear}, spent through from age ${input.targetAge} at $${input.sequenceRisk.annualSpendingToday.toLocaleString()}/yr in today's dollars — once in the order they happened and once reversed.
+      Both average ${input.sequenceRisk.averageReturn.toFixed(1)}% a year (${input.sequenceRisk.compoundReturn.toFixed(1)}% compound), and with no withdrawals both would end at $${input.sequenceRisk.untouchedFinal.toLocaleString()}.
+      In order, the money ${input.sequenceRisk.forwardDepletionAge === null ? `lasts past ${input.sequenceRisk.lifeExpectancy}` : `runs out at <strong>${Math.floor(input.sequenceRisk.forwardDepletionAge)}</strong>`}; reversed, it ${input.sequenceRisk.reversedDepletionAge === null ? `lasts past ${input.sequenceRisk.lifeExpectancy}` : `runs out at <strong>${Math.floor(input.sequenceRisk.reversedDepletionAge)}</strong>`}.
+      Once you are withdrawing, bad years early do lasting damage — the average return doesn't tell the whole story.</p>
+      <table><thead><tr><th>Age</th><th class="r">In order</th><th class="r">Reversed</th></tr></thead><tbody>${sequenceRows}</tbody></table></div>`
+        : ''
+    }
+
     ${
       scheduleRows
         ? `<div class="card"><h2>Adjust by age (when enabled)</h2>
-    <table><thead><tr><th>Age</th><th class="r">Super/mo</th><th class="r">Personal/mo</th></tr></thead><tbody>${scheduleRows}</tbody></table></div>`
+    <table><thead><tr><th>Age</th><th class="r">Super/${unit}</th><th class="r">Personal/${unit}</th></tr></thead><tbody>${scheduleRows}</tbody></table></div>`
         : ''
     }
 
     <div class="card">
       <h2>Projection (sampled yearly points)</h2>
       <table>
-        <thead><tr><th>Age</th><th class="r">Total</th><th class="r">Contributed</th><th class="r">Growth</th></tr></thead>
+        <thead><tr><th>Age</th><th class="r">Total</th><th class="r">Contributed</th><th class="r">Growth</th>${showWithdrawn ? '<th class="r">Withdrawn</th>' : ''}${showFeeDrag ? '<th class="r">Fee drag</th>' : ''}</tr></thead>
         <tbody>${projectionRows}</tbody>
       </table>
     </div>
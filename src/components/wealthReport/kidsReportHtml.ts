@@ -1,31 +1,188 @@
-export type KidsChartRow = { age: number; total: number; contributed: number; growth: number };
+import {
+  describeCompounding,
+  describeReturnSchedule,
+  describeValueBasis,
+  findFrequency,
+  type CompoundingConvention,
+  type ContributionFrequency,
+  type ContributionIndexation,
+  type CostOfWaiting,
+  type FeeSummary,
+  type GoalSolveMode,
+  type MarketShock,
+  type Milestone,
+  type MonteCarloSettings,
+  type PercentileBand,
+  type PortfolioBlend,
+  type PortfolioBlock,
+  type PotFees,
+  type ProjectionYear,
+  type ReturnScheduleEntry,
+  type ScheduleEntry,
+  type StressTestSummary,
+  type ValueBasis,
+} from '../../projection';
+import { pieChartSvg } from './pieChartSvg';
+
+export type KidsChartRow = ProjectionYear;
+
+/** Seeded simulation shown on the chart, repeated in the report with the same seed. */
+export type MonteCarloReport = {
+  settings: MonteCarloSettings;
+  bands: PercentileBand[];
+  targetBalance: number;
+  probability: number;
+};
+
+/** Historical replay summary; finals are in the report's value basis. */
+export type BacktestReport = {
+  indexLabel: string;
+  startYears: number;
+  worst: { startYear: number; final: number };
+  median: { startYear: number; final: number };
+  best: { startYear: number; final: number };
+  overlayYear: number | null;
+};
+
+/** One lump sum as entered, with any part of a withdrawal the balance couldn't cover. */
+export type LumpSumReport = {
+  age: number;
+  potLabel: string;
+  label: string;
+  /** Positive = deposit, negative = withdrawal. */
+  amount: number;
+  shortfall: number;
+};
+
+/** One row of the scenario comparison; figures are in the report's value basis. */
+export type ScenarioReport = {
+  name: string;
+  /** Line colour on the chart snapshot. */
+  colour: string;
+  description: string;
+  /** Age the plan ends at; pinned plans keep their own. */
+  endAge: number;
+  total: number;
+  contributed: number;
+  growth: number;
+};
+
+/** Dividend split of the return; totals are in the report's value basis. */
+export type DividendReport = {
+  /** Yield the projection used, i.e. already capped at the return. */
+  yieldPercent: number;
+  reinvest: boolean;
+  /** Cumulative dividends paid by the target age. */
+  totalDividends: number;
+  /** Yearly dividends the investment would pay at the target age. */
+  passiveIncome: number;
+};
+
+/** ETF building blocks behind the blended return; `colour` matches the on-screen pie. */
+export type PortfolioReport = {
+  blocks: Array<PortfolioBlock & { colour: string }>;
+  rebalance: boolean;
+  blend: PortfolioBlend;
+  /** Percent share of each block by the target age without rebalancing. */
+  driftedAtTarget: number[];
+};
+
+/** Crash stress test; totals are in the report's value basis. */
+export type StressTestReport = MarketShock & StressTestSummary;
+
+/** Goal solver answer; `requiredBalance` is in the report's value basis. */
+export type GoalReport = {
+  targetKind: 'balance' | 'income';
+  target: number;
+  withdrawalRate: number;
+  requiredBalance: number;
+  solveFor: GoalSolveMode;
+  /** $ per payment, % p.a. or age, depending on `solveFor`; null when out of reach. */
+  result: number | null;
+};
+
+/** Which chart view was on screen when the snapshot was taken. */
+export type ReportChartMode = 'lines' | 'stacked' | 'log' | 'growthShare';
 
 export type KidsReportInput = {
   generatedAt: string;
   startAge: number;
   targetAge: number;
   initialInvestment: number;
+  /** Amount per payment at `contributionFrequency`. */
   monthlyAmount: number;
+  contributionFrequency: ContributionFrequency;
   annualReturn: number;
+  compounding: CompoundingConvention;
   finalAmount: number;
   totalContributed: number;
   totalGrowth: number;
+  /** Taken out by lump-sum withdrawals; not deducted from `totalContributed`. */
+  totalWithdrawn: number;
+  fees: PotFees;
+  feeSummary: FeeSummary;
+  dividends: DividendReport | null;
+  portfolio: PortfolioReport | null;
+  /** Return by age (glide path); empty for a flat return. */
+  returnSchedule: ReturnScheduleEntry[];
+  stressTest: StressTestReport | null;
+  /** Flagged on the chart snapshot and listed under it. */
+  milestones: Milestone[];
+  /** Basis the chart data and totals are expressed in. */
+  valueBasis: ValueBasis;
+  inflationRate: number;
+  chartMode: ReportChartMode;
   chartData: KidsChartRow[];
+  monteCarlo: MonteCarloReport | null;
+  backtest: BacktestReport | null;
+  /** Yearly contribution increase, when enabled. */
+  indexation: ContributionIndexation | null;
+  lumpSums: LumpSumReport[];
+  goal: GoalReport | null;
+  /** Same plan started later; totals are in the report's value basis. */
+  costOfWaiting: CostOfWaiting;
+  showDelayLine: boolean;
+  /** Live plan first, then the pinned scenarios; empty when nothing is pinned. */
+  scenarios: ScenarioReport[];
   showAdvancedContributions: boolean;
-  contributionSchedule: Array<{ age: number; amount: number }>;
+  contributionSchedule: ScheduleEntry[];
   chartImageDataUrl: string | null;
 };
 
-function sampleRows(data: KidsChartRow[]): KidsChartRow[] {
+function sampleRows<T extends { age: number }>(data: T[]): T[] {
   if (data.length <= 18) return data;
   const step = Math.max(1, Math.floor(data.length / 16));
-  const out: KidsChartRow[] = [];
+  const out: T[] = [];
   for (let i = 0; i < data.length; i += step) out.push(data[i]);
   const last = data[data.length - 1];
   if (out[out.length - 1]?.age !== last.age) out.push(last);
   return out;
 }
 
+function describeFees(fees: PotFees): string {
+  if (fees.feePercent <= 0 && fees.fixedFeeAnnual <= 0) return 'None';
+  return `${fees.feePercent}% p.a. + $${fees.fixedFeeAnnual.toLocaleString()}/yr`;
+}
+
+function describeIndexation(indexation: ContributionIndexation | null, unit: string): string {
+  if (!indexation || indexation.ratePercent <= 0) return 'None';
+  const cap = indexation.capMonthly > 0 ? `, up to $${indexation.capMonthly.toLocaleString()}/${unit}` : '';
+  return `+${indexation.ratePercent}% per year${cap}`;
+}
+
+function describeLumpSum(l: LumpSumReport): string {
+  const what = `${l.amount < 0 ? 'Take out' : 'Add'} $${Math.abs(l.amount).toLocaleString()} ${l.amount < 0 ? 'from' : 'to'} ${l.potLabel}`;
+  const shortfall = l.shortfall > 0 ? ` — $${Math.round(l.shortfall).toLocaleString()} more than the balance, not paid` : '';
+  return `${what}${l.label ? ` (${l.label})` : ''}${shortfall}`;
+}
+
+function describeGoalResult(goal: GoalReport, targetAge: number, unit: string): string {
+  if (goal.result === null) return 'Not reachable with the current plan.';
+  if (goal.solveFor === 'monthly') return `Invest $${goal.result.toLocaleString()} a ${unit} in total to reach it by age ${targetAge}.`;
+  if (goal.solveFor === 'return') return `Needs about ${goal.result}% a year to reach it by age ${targetAge}.`;
+  return `Reached at age ${goal.result} with the current plan.`;
+}
+
 function esc(s: string): string {
   return s
     .replace(/&/g, '&amp;')
@@ -47,10 +204,38 @@ export function buildKidsReportHtml(input: KidsReportInput): string {
           .join('')
       : '';
 
+  const showFeeDrag = input.feeSummary.feeDrag > 0;
+  const showWithdrawn = input.totalWithdrawn > 0;
+  const frequency = findFrequency(input.contributionFrequency);
+  const unit = frequency.unit;
+
+  const scenarioRows = input.scenarios
+    .map(
+      (sc) =>
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb"><span style="display:inline-block;width:14px;height:4px;border-radius:2px;margin-right:6px;vertical-align:middle;background:${sc.colour}"></span><strong>${esc(sc.name)}</strong><div style="font-size:11px;color:#6b7280">${esc(sc.description)}</div></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right"><strong>$${sc.total.toLocaleString()}</strong><div style="font-size:11px;color:#6b7280">at ${sc.endAge}</div></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${sc.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${sc.growth.toLocaleString()}</td></tr>`
+    )
+    .join('');
+
+  const portfolioRows = (input.portfolio?.blocks ?? [])
+    .map(
+      (b) =>
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb"><span style="display:inline-block;width:10px;height:10px;border-radius:2px;margin-right:6px;vertical-align:middle;background:${b.colour}"></span>${esc(b.label)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right"><strong>${b.weight}%</strong></td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.annualReturn}%</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.volatility}%</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">${b.feePercent}%</td></tr>`
+    )
+    .join('');
+
+  const monteCarloRows = input.monteCarlo
+    ? sampleRows(input.monteCarlo.bands)
+        .map(
+          (b) =>
+            `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(b.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p10.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p50.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${b.p90.toLocaleString()}</td></tr>`
+        )
+        .join('')
+    : '';
+
   const projectionRows = rows
     .map(
       (r) =>
-        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.total.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.growth.toLocaleString()}</td></tr>`
+        `<tr><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb">${Number(r.age).toFixed(1)}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.total.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.contributed.toLocaleString()}</td><td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.growth.toLocaleString()}</td>${showWithdrawn ? `<td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${r.withdrawn.toLocaleString()}</td>` : ''}${showFeeDrag ? `<td style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right">$${(r.feeDrag ?? 0).toLocaleString()}</td>` : ''}</tr>`
     )
     .join('');
 
@@ -73,7 +258,7 @@ export function buildKidsReportHtml(input: KidsReportInput): string {
     .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 10px 20px; font-size: 14px; }
     .grid div { border-bottom: 1px solid #e5e7eb; padding-bottom: 8px; }
     .grid strong { display: block; font-size: 11px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.04em; margin-bottom: 2px; }
-    .highlight { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin: 18px 0; }
+    .highlight { display: grid; grid-template-columns: repeat(auto-fit, minmax(0, 1fr)); gap: 12px; margin: 18px 0; }
     .stat { background: #fff; border: 1px solid #e5e7eb; border-radius: 10px; padding: 14px; text-align: center; break-inside: avoid; page-break-inside: avoid; }
     .stat .n { font-size: 20px; font-weight: 800; color: #a21caf; }
     .stat .l { font-size: 11px; color: #6b7280; margin-top: 4px; text-transform: uppercase; letter-spacing: 0.04em; }
@@ -101,7 +286,7 @@ export function buildKidsReportHtml(input: KidsReportInput): string {
   <div class="wrap">
     <div class="hero">
       <h1>Kids Wealth Blueprint</h1>
-      <p>Learning report · ${esc(input.generatedAt)}</p>
+      <p>Learning report · ${esc(input.generatedAt)} · ${esc(describeValueBasis(input.valueBasis, input.inflationRate))}</p>
       <span class="badge">For children &amp; young people · ages 0–18 · educational illustration</span>
     </div>
 
@@ -109,14 +294,15 @@ export function buildKidsReportHtml(input: KidsReportInput): string {
       <div class="stat"><div class="n">$${input.finalAmount.toLocaleString()}</div><div class="l">Total at future age ${input.targetAge}</div></div>
       <div class="stat"><div class="n">$${input.totalContributed.toLocaleString()}</div><div class="l">Total added</div></div>
       <div class="stat"><div class="n">$${input.totalGrowth.toLocaleString()}</div><div class="l">Example growth</div></div>
+      ${showWithdrawn ? `<div class="stat"><div class="n">$${input.totalWithdrawn.toLocaleString()}</div><div class="l">Withdrawn</div></div>` : ''}
     </div>
 
     <div class="chart-card">
       <h2>Growth chart</h2>
       ${
         input.chartImageDataUrl
-          ? `<figure class="chart-figure"><img src="${input.chartImageDataUrl}" alt="Example growth chart: total value and amount added by age"/></figure>
-      <p class="chart-note">Snapshot from your calculator (blue = total, green = amount added). Sized to fit one page clearly.</p>`
+          ? `<figure class="chart-figure"><img src="${input.chartImageDataUrl}" alt="Example growth chart: ${input.chartMode === 'stacked' ? 'amount added and growth stacked' : 'total value and amount added'} by age"/></figure>
+      <p class="chart-note">Snapshot from your calculator (${input.chartMode === 'stacked' ? `green area = amount added${showWithdrawn ? ' less withdrawals' : ''}, blue area = growth on top${input.chartData.some((r) => r.total < r.contributed - r.withdrawn) ? ', red = lost from what went in' : ''}` : 'blue = total, green = amount added'}).${showFeeDrag ? ' Red dashed = fee drag.' : ''}${input.dividends ? ' Sky dotted = cumulative dividends.' : ''}${input.stressTest ? ` Dark red dash-dot = after a ${input.stressTest.fallPercent}% crash at ${input.stressTest.crashAge}.` : ''}${input.monteCarlo ? ' Purple band = simulated 10th–90th percentile range, solid purple line = median.' : ''}${input.backtest?.overlayYear != null ? ` Amber = history from ${input.backtest.overlayYear}.` : ''}${input.lumpSums.length > 0 ? ' Dots = lump sums.' : ''}${scheduleRows ? ' Thin blue lines = contribution changes.' : ''}${input.milestones.length > 0 ? ` Amber rings = milestones: ${input.milestones.map((m) => `${m.label} at ${m.age}`).join(' · ')}.` : ''}${input.showDelayLine ? ` Rose dashed = starting ${input.costOfWaiting.delayYears} years later.` : ''}${input.scenarios.length > 0 ? ' Other coloured lines = pinned scenarios.' : ''}${input.chartMode === 'log' ? ' Log scale: each gridline is 10× the one below.' : ''}${input.chartMode === 'growthShare' ? ' Dotted olive (right axis) = % of balance from growth.' : ''} Sized to fit one page clearly.</p>`
           : `<p class="chart-note">Chart snapshot was not available. Use the on-screen graph for the full visual.</p>`
       }
     </div>
@@ -128,21 +314,128 @@ export function buildKidsReportHtml(input: KidsReportInput): string {
         <div><strong>Future age</strong>${input.targetAge}</div>
         <div><strong>Starting stash</strong>$${input.initialInvestment.toLocaleString()}</div>
         <div><strong>Return (p.a.)</strong>${input.annualReturn}%</div>
-        <div><strong>Each month</strong>$${input.monthlyAmount.toLocaleString()}</div>
+        ${
+          input.returnSchedule.length > 0
+            ? `<div><strong>Return by age</strong>${esc(describeReturnSchedule(input.returnSchedule, input.annualReturn))}</div>`
+            : ''
+        }
+        <div><strong>Compounding</strong>${esc(describeCompounding(input.compounding))}</div>
+        <div><strong>Values shown in</strong>${esc(describeValueBasis(input.valueBasis, input.inflationRate))}</div>
+        <div><strong>Each ${unit}</strong>$${input.monthlyAmount.toLocaleString()} (${frequency.label.toLowerCase()})</div>
+        <div><strong>Contribution increases</strong>${esc(describeIndexation(input.indexation, unit))}</div>
+        <div><strong>Fees</strong>${esc(describeFees(input.fees))}</div>
+        ${
+          input.dividends
+            ? `<div><strong>Dividend yield</strong>${input.dividends.yieldPercent}% p.a., ${input.dividends.reinvest ? 'reinvested' : 'taken as cash'}</div>`
+            : ''
+        }
+        ${input.lumpSums
+          .map(
+            (l) =>
+              `<div${l.shortfall > 0 ? ' style="color:#b91c1c"' : ''}><strong>Lump sum at age ${l.age}</strong>${esc(describeLumpSum(l))}</div>`
+          )
+          .join('')}
       </div>
     </div>
 
+    ${
+      input.goal
+        ? `<div class="card"><h2>Your goal</h2>
+      <p style="margin:0;font-size:14px">${
+        input.goal.targetKind === 'income'
+          ? `An income of $${input.goal.target.toLocaleString()}/yr at a ${input.goal.withdrawalRate}% withdrawal rate needs a balance of $${input.goal.requiredBalance.toLocaleString()}.`
+          : `Target balance: $${input.goal.requiredBalance.toLocaleString()}.`
+      } <strong>${esc(describeGoalResult(input.goal, input.targetAge, unit))}</strong></p></div>`
+        : ''
+    }
+
+    <div class="card">
+      <h2>Cost of waiting</h2>
+      <p style="margin:0;font-size:14px">Starting now: <strong>$${input.costOfWaiting.nowTotal.toLocaleString()}</strong> by age ${input.targetAge}. The same plan started ${input.costOfWaiting.delayYears} ${input.costOfWaiting.delayYears === 1 ? 'year' : 'years'} later: $${input.costOfWaiting.delayedTotal.toLocaleString()}.
+      Waiting costs <strong>$${input.costOfWaiting.cost.toLocaleString()}</strong> (${input.costOfWaiting.costPercent.toFixed(1)}% of the final balance).</p>
+    </div>
+
+    ${
+      input.scenarios.length > 0
+        ? `<div class="card"><h2>Scenario comparison</h2>
+      <table><thead><tr><th>Scenario</th><th class="r">Final total</th><th class="r">Contributed</th><th class="r">Growth</th></tr></thead><tbody>${scenarioRows}</tbody></table></div>`
+        : ''
+    }
+    ${
+      showFeeDrag
+        ? `<div class="card"><h2>Cost of fees</h2>
+      <p style="margin:0;font-size:14px">Fees reduce the balance at age ${input.targetAge} by <strong>$${input.feeSummary.feeDrag.toLocaleString()}</strong> —
+      ${input.feeSummary.feeDragPercent.toFixed(1)}% lower than the same plan with zero fees. That is $${input.feeSummary.totalFees.toLocaleString()} paid in fees plus the growth that money would have earned.</p></div>`
+        : ''
+    }
+
+    ${
+      input.dividends
+        ? `<div class="card"><h2>Dividends and passive income</h2>
+      <p style="margin:0;font-size:14px">${input.dividends.yieldPercent}% a year of the return is paid as dividends; the rest is capital growth.
+      By age ${input.targetAge}, $${input.dividends.totalDividends.toLocaleString()} in dividends has been ${input.dividends.reinvest ? 'reinvested' : 'paid out as cash'}.
+      At that point the investment would pay about <strong>$${input.dividends.passiveIncome.toLocaleString()} a year</strong> ($${Math.round(input.dividends.passiveIncome / 12).toLocaleString()} a month) in passive income without selling anything.</p></div>`
+        : ''
+    }
+
+    ${
+      input.portfolio
+        ? `<div class="card"><h2>Portfolio mix</h2>
+      <div style="display:flex;gap:16px;align-items:center">
+        <div style="flex-shrink:0">${pieChartSvg(input.portfolio.blocks.map((b) => ({ label: b.label, value: b.weight, colour: b.colour })))}</div>
+        <div style="flex:1;min-width:0"><table><thead><tr><th>Block</th><th class="r">Weight</th><th class="r">Return</th><th class="r">Volatility</th><th class="r">Fee</th></tr></thead><tbody>${portfolioRows}</tbody></table></div>
+      </div>
+      <p style="margin:10px 0 0;font-size:13px">Blended return for the investment: <strong>${input.portfolio.blend.annualReturn.toFixed(2)}% a year</strong> after fees (${input.portfolio.blend.grossReturn.toFixed(2)}% before ${input.portfolio.blend.feePercent.toFixed(2)}% in fund fees), volatility about ${input.portfolio.blend.volatility.toFixed(1)}%.
+      ${
+        input.portfolio.rebalance
+          ? 'Rebalanced back to these weights every year.'
+          : `Not rebalanced: by age ${input.targetAge} the mix drifts to ${esc(input.portfolio.blocks.map((b, i) => `${b.label} ${Math.round(input.portfolio?.driftedAtTarget[i] ?? 0)}%`).join(' · '))}.`
+      }</p></div>`
+        : ''
+    }
+
+    ${
+      input.stressTest
+        ? `<div class="card"><h2>Market crash stress test</h2>
+      <p style="margin:0;font-size:14px">A ${input.stressTest.fallPercent}% market fall at age ${input.stressTest.crashAge} wipes <strong>$${input.stressTest.loss.toLocaleString()}</strong> off the balance${input.stressTest.recoveryYears > 0 ? `, with prices recovering over ${input.stressTest.recoveryYears} years` : ' and prices never recover'}.
+      ${input.stressTest.recoveredAge !== null ? `Staying invested and contributing, the balance is back above its pre-crash level by age ${input.stressTest.recoveredAge}.` : `The balance is still below its pre-crash level at age ${input.targetAge}.`}
+      It ends at <strong>$${input.stressTest.stressedTotal.toLocaleString()}</strong> instead of $${input.stressTest.baselineTotal.toLocaleString()}${input.stressTest.shortfall > 0 ? ` (${input.stressTest.shortfallPercent.toFixed(0)}% less)` : ' — buying cheaper after the fall more than made up for it'}.
+      Endurance, not excitement: the plan survives by not selling.</p></div>`
+        : ''
+    }
+
+    ${
+      input.monteCarlo
+        ? `<div class="card"><h2>Market ups and downs (simulation)</h2>
+      <p style="margin:0 0 10px;font-size:13px">${input.monteCarlo.settings.paths.toLocaleString()} simulated paths · average return ${input.monteCarlo.settings.meanReturn}% · volatility ${input.monteCarlo.settings.volatility}% · seed ${input.monteCarlo.settings.seed}.
+      <strong>${Math.round(input.monteCarlo.probability)}%</strong> of paths reach $${input.monteCarlo.targetBalance.toLocaleString()} by age ${input.targetAge}.</p>
+      <table><thead><tr><th>Age</th><th class="r">10th percentile</th><th class="r">Median</th><th class="r">90th percentile</th></tr></thead><tbody>${monteCarloRows}</tbody></table></div>`
+        : ''
+    }
+
+    ${
+      input.backtest
+        ? `<div class="card"><h2>Replaying history</h2>
+      <p style="margin:0 0 10px;font-size:13px">This plan replayed through ${esc(input.backtest.indexLabel)} returns for ${input.backtest.startYears} historical start years.${input.backtest.overlayYear !== null ? ` The chart shows the run starting in ${input.backtest.overlayYear}.` : ''}</p>
+      <div class="grid">
+        <div><strong>Worst (started ${input.backtest.worst.startYear})</strong>$${input.backtest.worst.final.toLocaleString()}</div>
+        <div><strong>Median (started ${input.backtest.median.startYear})</strong>$${input.backtest.median.final.toLocaleString()}</div>
+        <div><strong>Best (started ${input.backtest.best.startYear})</strong>$${input.backtest.best.final.toLocaleString()}</div>
+      </div></div>`
+        : ''
+    }
+
     ${
       scheduleRows
         ? `<div class="card"><h2>Different amounts by age (optional)</h2>
-    <table><thead><tr><th>Age</th><th class="r">$/month</th></tr></thead><tbody>${scheduleRows}</tbody></table></div>`
+    <table><thead><tr><th>Age</th><th class="r">$/${unit}</th></tr></thead><tbody>${scheduleRows}</tbody></table></div>`
         : ''
     }
 
     <div class="card">
       <h2>Graph numbers (sampled)</h2>
       <table>
-        <thead><tr><th>Age</th><th class="r">Total</th><th class="r">Contributed</th><th class="r">Growth</th></tr></thead>
+        <thead><tr><th>Age</th><th class="r">Total</th><th class="r">Contributed</th><th class="r">Growth</th>${showWithdrawn ? '<th class="r">Withdrawn</th>' : ''}${showFeeDrag ? '<th class="r">Fee drag</th>' : ''}</tr></thead>
         <tbody>${projectionRows}</tbody>
       </table>
     </div>
@@ -0,0 +1,28 @@
+/** One slice of a report pie; `value` is any positive share (slices are scaled to the total). */
+export type PieSlice = { label: string; value: number; colour: string };
+
+function point(cx: number, cy: number, r: number, fraction: number): string {
+  const angle = fraction * 2 * Math.PI - Math.PI / 2;
+  return `${(cx + r * Math.cos(angle)).toFixed(2)} ${(cy + r * Math.sin(angle)).toFixed(2)}`;
+}
+
+/** Inline SVG pie for the HTML reports, starting at twelve o'clock and running clockwise. */
+export function pieChartSvg(slices: PieSlice[], size = 140): string {
+  const visible = slices.filter((s) => s.value > 0);
+  const total = visible.reduce((sum, s) => sum + s.value, 0);
+  const r = size / 2;
+  if (total <= 0) return '';
+  if (visible.length === 1) {
+    return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img"><circle cx="${r}" cy="${r}" r="${r}" fill="${visible[0].colour}"/></svg>`;
+  }
+  let start = 0;
+  const paths = visible.map((s) => {
+    const end = start + s.value / total;
+    const largeArc = end - start > 0.5 ? 1 : 0;
+    const d = `M ${r} ${r} L ${point(r, r, r, start)} A ${r} ${r} 0 ${largeArc} 1 ${point(r, r, r, end)} Z`;
+    start = end;
+    const title = s.label.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `<path d="${d}" fill="${s.colour}" stroke="#fff" stroke-width="1.5"><title>${title}</title></path>`;
+  });
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img">${paths.join('')}</svg>`;
+}
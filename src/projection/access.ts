@@ -0,0 +1,13 @@
+import type { PotInput, ProjectionYear } from './types';
+
+/** Preservation age for anyone born after 30 June 1964. */
+export const DEFAULT_PRESERVATION_AGE = 60;
+
+export function isAccessible(pot: PotInput, age: number): boolean {
+  return pot.preservationAge === undefined || age >= pot.preservationAge;
+}
+
+/** Sum of the pot balances in `row` that can be withdrawn at the row's age. */
+export function accessibleBalance(row: ProjectionYear, pots: PotInput[]): number {
+  return pots.reduce((sum, pot) => (isAccessible(pot, row.age) ? sum + (row.pots[pot.id]?.balance ?? 0) : sum), 0);
+}
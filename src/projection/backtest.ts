@@ -0,0 +1,53 @@
+import { runProjection } from './engine';
+import { lastYearOf, type HistoricalIndex } from './historicalReturns';
+import type { ProjectionInput, ProjectionYear } from './types';
+
+/** The plan replayed with returns from one historical start year onwards. */
+export type BacktestOutcome = {
+  startYear: number;
+  yearly: ProjectionYear[];
+  final: ProjectionYear;
+};
+
+export type BacktestResult = {
+  index: HistoricalIndex;
+  /** One outcome per start year with a complete run of history, sorted by final balance (worst first). */
+  outcomes: BacktestOutcome[];
+  best: BacktestOutcome | null;
+  median: BacktestOutcome | null;
+  worst: BacktestOutcome | null;
+  /** Number of whole years the plan needs; start years without that much history are skipped. */
+  yearsNeeded: number;
+};
+
+/**
+ * Replays the plan (contributions, schedule, breaks, fees, events) over every historical start year
+ * where the dataset covers the whole horizon.
+ */
+export function runBacktest(input: ProjectionInput, index: HistoricalIndex): BacktestResult {
+  const yearsNeeded = Math.max(1, Math.ceil(input.years));
+  const lastStart = lastYearOf(index) - yearsNeeded + 1;
+  const outcomes: BacktestOutcome[] = [];
+
+  for (let startYear = index.firstYear; startYear <= lastStart; startYear++) {
+    const offset = startYear - index.firstYear;
+    const annualReturnPath = index.returns.slice(offset, offset + yearsNeeded);
+    const { yearly, final } = runProjection({ ...input, annualReturnPath }, { monthly: false });
+    outcomes.push({ startYear, yearly, final });
+  }
+
+  outcomes.sort((a, b) => a.final.total - b.final.total);
+  return {
+    index,
+    outcomes,
+    worst: outcomes[0] ?? null,
+    median: outcomes[Math.floor((outcomes.length - 1) / 2)] ?? null,
+    best: outcomes[outcomes.length - 1] ?? null,
+    yearsNeeded,
+  };
+}
+
+export function findOutcome(result: BacktestResult, startYear: number | null): BacktestOutcome | null {
+  if (startYear === null) return result.median;
+  return result.outcomes.find((o) => o.startYear === startYear) ?? result.median;
+}
@@ -0,0 +1,44 @@
+import type { AgeRange, ContributionBreak } from './types';
+
+/** Percent cut for a break, 100 (a full pause) when not given. */
+function reductionOf(b: ContributionBreak): number {
+  return Math.min(100, Math.max(0, b.reductionPercent ?? 100));
+}
+
+/** Share of the contribution still paid at `age`: the deepest cut among the breaks covering it (1 = no break). */
+export function breakFactor(age: number, breaks?: ContributionBreak[]): number {
+  if (!breaks?.length) return 1;
+  return breaks.reduce(
+    (factor, b) => (age >= b.fromAge && age <= b.toAge ? Math.min(factor, 1 - reductionOf(b) / 100) : factor),
+    1
+  );
+}
+
+/** "paused" for a full break, otherwise the cut, e.g. "−50%". */
+export function describeReduction(b: ContributionBreak): string {
+  const cut = reductionOf(b);
+  return cut >= 100 ? 'paused' : `−${cut}%`;
+}
+
+/** e.g. "Parental leave (super −50%): age 32–34". */
+export function describeBreak(b: ContributionBreak, potLabel: string): string {
+  return `${b.label?.trim() || 'Break'} (${potLabel} ${describeReduction(b)}): age ${b.fromAge}–${b.toAge}`;
+}
+
+/** A period shaded on the chart; `pots` lists each pot's cut, e.g. ["super −50%", "personal paused"]. */
+export type BreakRegion = AgeRange & { label: string; pots: string[] };
+
+/** One region per distinct period and label, so a break entered on both pots is shaded once. */
+export function breakRegions(breaksByPot: Array<{ potLabel: string; breaks: ContributionBreak[] }>): BreakRegion[] {
+  const regions = new Map<string, BreakRegion>();
+  breaksByPot.forEach(({ potLabel, breaks }) =>
+    breaks.forEach((b) => {
+      const label = b.label?.trim() || 'Break';
+      const key = `${b.fromAge}|${b.toAge}|${label}`;
+      const region = regions.get(key) ?? { fromAge: b.fromAge, toAge: b.toAge, label, pots: [] };
+      region.pots.push(`${potLabel} ${describeReduction(b)}`);
+      regions.set(key, region);
+    })
+  );
+  return [...regions.values()].sort((a, b) => a.fromAge - b.fromAge);
+}
@@ -0,0 +1,8 @@
+import type { PotInput, ProjectionYear } from './types';
+
+/** Dividends the pots would pay over a year at a row's balances (e.g. passive income at the target age). */
+export function annualDividendIncome(row: ProjectionYear, pots: PotInput[]): number {
+  return Math.round(
+    pots.reduce((sum, pot) => sum + ((row.pots[pot.id]?.balance ?? 0) * (pot.dividendYield ?? 0)) / 100, 0)
+  );
+}
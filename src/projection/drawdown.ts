@@ -0,0 +1,127 @@
+import { monthlyRate } from './frequency';
+import type { CompoundingConvention } from './types';
+
+/** Spending phase after the target age, run on the combined balance. */
+export type DrawdownSettings = {
+  /** Age the money needs to last until. */
+  lifeExpectancy: number;
+  /** Spending in the first year of drawdown, per year. */
+  annualSpending: number;
+  /** Percent per year the spending rises after the first year (0 = flat dollars). */
+  spendingIndexation: number;
+  /** Return in percent p.a. once drawing down. */
+  postRetirementReturn: number;
+  /** Percent return per drawdown year (e.g. real market years); replaces `postRetirementReturn`, repeating if short. */
+  returnPath?: number[];
+  /** How the annual return becomes a monthly rate; pass the accumulation phase's convention. Defaults to monthly. */
+  compounding?: CompoundingConvention;
+  /** Part of the starting balance that can't be spent before `lockedUntilAge` (e.g. super below preservation age). */
+  lockedBalance?: number;
+  lockedUntilAge?: number;
+};
+
+/** One year of drawdown; `withdrawn` is less than planned in the year the money runs out. */
+export type DrawdownYear = {
+  age: number;
+  opening: number;
+  withdrawn: number;
+  growth: number;
+  closing: number;
+};
+
+export type DrawdownResult = {
+  yearly: DrawdownYear[];
+  /** Age (to the month) the balance first hits zero, or null if it lasts to `lifeExpectancy`. */
+  depletionAge: number | null;
+  totalWithdrawn: number;
+  /** Spending left unpaid while the accessible money had run out but the locked part was still locked. */
+  accessGap: number;
+  /** Age (to the month) that gap opened, or null if the accessible money bridged to `lockedUntilAge`. */
+  accessGapAge: number | null;
+};
+
+/**
+ * Draws `annualSpending / 12` at the end of each month from `startAge` until `lifeExpectancy`. Before
+ * `lockedUntilAge` only the accessible part can be drawn; the locked part keeps growing and joins it at that age.
+ */
+export function runDrawdown(startBalance: number, startAge: number, settings: DrawdownSettings): DrawdownResult {
+  const months = Math.max(0, Math.round((settings.lifeExpectancy - startAge) * 12));
+  const { returnPath, compounding, lockedUntilAge = startAge } = settings;
+  const yearly: DrawdownYear[] = [];
+
+  let balance = Math.max(0, startBalance);
+  let locked = lockedUntilAge > startAge ? Math.min(Math.max(0, settings.lockedBalance ?? 0), balance) : 0;
+  let depletionAge: number | null = null;
+  let accessGapAge: number | null = null;
+  let accessGap = 0;
+  let totalWithdrawn = 0;
+  let opening = balance;
+  let withdrawn = 0;
+  let growth = 0;
+
+  for (let month = 1; month <= months; month++) {
+    const yearIndex = Math.floor((month - 1) / 12);
+    if (locked > 0 && startAge + (month - 1) / 12 >= lockedUntilAge) locked = 0;
+    const spend = settings.annualSpending / 12 * Math.pow(1 + settings.spendingIndexation / 100, yearIndex);
+    const annualReturn = returnPath?.length ? returnPath[yearIndex % returnPath.length] : settings.postRetirementReturn;
+    const monthlyReturn = monthlyRate(annualReturn, compounding);
+    const earned = balance * monthlyReturn;
+    const accessible = balance - locked + (balance - locked) * monthlyReturn;
+    const taken = Math.min(Math.max(0, spend), accessible);
+
+    balance = balance + earned - taken;
+    locked += locked * monthlyReturn;
+    growth += earned;
+    withdrawn += taken;
+    totalWithdrawn += taken;
+    if (taken < spend && locked > 0) {
+      accessGap += spend - taken;
+      if (accessGapAge === null) accessGapAge = startAge + month / 12;
+    } else if (depletionAge === null && taken < spend) {
+      depletionAge = startAge + month / 12;
+    }
+
+    if (month % 12 === 0 || month === months) {
+      yearly.push({
+        age: Math.round((startAge + month / 12) * 10) / 10,
+        opening: Math.round(opening),
+        withdrawn: Math.round(withdrawn),
+        growth: Math.round(growth),
+        closing: Math.round(balance),
+      });
+      opening = balance;
+      withdrawn = 0;
+      growth = 0;
+    }
+  }
+
+  return {
+    yearly,
+    depletionAge,
+    totalWithdrawn: Math.round(totalWithdrawn),
+    accessGap: Math.round(accessGap),
+    accessGapAge,
+  };
+}
+
+/**
+ * Largest first-year spend (same indexation and return) that lasts until `lifeExpectancy` without a gap
+ * while part of the balance is locked.
+ */
+export function maxSustainableSpend(startBalance: number, startAge: number, settings: DrawdownSettings): number {
+  if (startBalance <= 0 || settings.lifeExpectancy <= startAge) return 0;
+  const lasts = (annualSpending: number) => {
+    const result = runDrawdown(startBalance, startAge, { ...settings, annualSpending });
+    return result.depletionAge === null && result.accessGap === 0;
+  };
+
+  let lo = 0;
+  let hi = startBalance;
+  while (lasts(hi) && hi < startBalance * 1000) hi *= 2;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (lasts(mid)) lo = mid;
+    else hi = mid;
+  }
+  return Math.floor(lo);
+}
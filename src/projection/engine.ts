@@ -0,0 +1,186 @@
+import { breakFactor } from './breaks';
+import { contributionMonthFactor, monthlyRate } from './frequency';
+import { returnInForce } from './glidePath';
+import { marketShockFactor } from './stressTest';
+import type {
+  AppliedEvent,
+  ContributionIndexation,
+  PotInput,
+  PotSnapshot,
+  ProjectionEvent,
+  ProjectionInput,
+  ProjectionMonth,
+  ProjectionOptions,
+  ProjectionResult,
+  ProjectionYear,
+  ScheduleEntry,
+} from './types';
+
+/**
+ * Latest schedule entry at or below `age` wins; before the first entry the base amount applies.
+ * `schedule` must already be in ascending age order (see `withSortedSchedule`).
+ */
+function scheduledAmount(age: number, base: number, schedule?: ScheduleEntry[]): number {
+  let amount = base;
+  for (const entry of schedule ?? []) {
+    if (entry.age > age) break;
+    amount = entry.amount;
+  }
+  return amount;
+}
+
+/** The pot with its schedule sorted by age, so the monthly lookup doesn't have to sort. */
+function withSortedSchedule(pot: PotInput): PotInput {
+  return pot.schedule && pot.schedule.length > 1
+    ? { ...pot, schedule: [...pot.schedule].sort((a, b) => a.age - b.age) }
+    : pot;
+}
+
+/** Scheduled amount raised by `year` years of indexation, up to the cap. */
+function indexedAmount(amount: number, indexation: ContributionIndexation | undefined, year: number): number {
+  if (!indexation || indexation.ratePercent === 0 || year <= 0) return amount;
+  const indexed = amount * Math.pow(1 + indexation.ratePercent / 100, year);
+  return indexation.capMonthly > 0 ? Math.min(indexed, Math.max(indexation.capMonthly, amount)) : indexed;
+}
+
+/**
+ * Monthly contribution into a pot at a given age, after schedule, indexation and breaks.
+ * `year` is the number of whole years since the projection started.
+ */
+export function contributionAtAge(pot: PotInput, age: number, year = 0): number {
+  return sortedContributionAtAge(withSortedSchedule(pot), age, year);
+}
+
+function sortedContributionAtAge(pot: PotInput, age: number, year: number): number {
+  const amount = indexedAmount(scheduledAmount(age, pot.monthlyContribution, pot.schedule), pot.indexation, year);
+  return amount * breakFactor(age, pot.breaks);
+}
+
+/** Month index (0 = start) in which an event lands. */
+function eventMonth(event: ProjectionEvent, startAge: number): number {
+  return Math.max(0, Math.round((event.age - startAge) * 12));
+}
+
+type PotState = { balance: number; contributed: number; withdrawn: number; fees: number; dividends: number };
+
+function snapshot(state: PotState, round: boolean): PotSnapshot {
+  const balance = round ? Math.round(state.balance) : state.balance;
+  const contributed = round ? Math.round(state.contributed) : state.contributed;
+  const withdrawn = round ? Math.round(state.withdrawn) : state.withdrawn;
+  const rawGrowth = state.balance + state.withdrawn - state.contributed;
+  const growth = round ? Math.round(rawGrowth) : rawGrowth;
+  const fees = round ? Math.round(state.fees) : state.fees;
+  const dividends = round ? Math.round(state.dividends) : state.dividends;
+  return { balance, contributed, withdrawn, growth, fees, dividends };
+}
+
+function snapshotAll(pots: PotInput[], states: PotState[], round: boolean): Record<string, PotSnapshot> {
+  const out: Record<string, PotSnapshot> = {};
+  pots.forEach((pot, i) => {
+    out[pot.id] = snapshot(states[i], round);
+  });
+  return out;
+}
+
+/** Fee for one month: the percentage fee on the grown balance plus a twelfth of the fixed fee, never more than the balance. */
+function monthlyFee(pot: PotInput, balance: number): number {
+  const percentFee = (balance * (pot.feePercent ?? 0)) / 100 / 12;
+  const fixedFee = (pot.fixedFeeAnnual ?? 0) / 12;
+  return Math.min(Math.max(0, balance), percentFee + fixedFee);
+}
+
+/**
+ * Month-by-month projection across one or more pots.
+ * Each month every pot grows at its monthly rate, pays its fees, then receives that month's contribution
+ * (quarterly and annual payers receive three or twelve months' worth in the month they pay).
+ * Dividends are the `dividendYield` part of the return; paid-out dividends leave the pot before fees.
+ * Events apply after the month's growth; withdrawals are limited to the pot's balance and add to `withdrawn`
+ * rather than reducing `contributed`.
+ */
+export function runProjection(input: ProjectionInput, options: ProjectionOptions = {}): ProjectionResult {
+  const { startAge, years, compounding, contributionFrequency, events = [], marketShocks } = input;
+  // Sorted once per run: Monte Carlo calls this thousands of times, and the lookup runs every month for every pot
+  const pots = input.pots.map(withSortedSchedule);
+  const recordMonthly = options.monthly ?? true;
+  const totalMonths = Math.max(0, Math.round(years * 12));
+
+  const states: PotState[] = pots.map((p) => ({
+    balance: p.initialBalance,
+    contributed: p.initialBalance,
+    withdrawn: 0,
+    fees: 0,
+    dividends: 0,
+  }));
+  const potIndex = new Map(pots.map((p, i) => [p.id, i] as const));
+
+  const monthly: ProjectionMonth[] = [];
+  const yearly: ProjectionYear[] = [];
+  const appliedEvents: AppliedEvent[] = [];
+
+  for (let month = 0; month <= totalMonths; month++) {
+    const age = startAge + month / 12;
+
+    if (month > 0) {
+      const year = Math.floor((month - 1) / 12);
+      // Returns follow the age at the start of the month, so a glide path step applies from that birthday
+      const monthStartAge = startAge + (month - 1) / 12;
+      const shock = marketShockFactor(marketShocks, startAge, month);
+      pots.forEach((pot, i) => {
+        const monthlyReturn = monthlyRate(returnInForce(input, pot, monthStartAge, year), compounding);
+        const amount = sortedContributionAtAge(pot, age, year) * contributionMonthFactor(contributionFrequency, month);
+        const dividend = Math.max(0, states[i].balance) * monthlyRate(pot.dividendYield ?? 0, compounding);
+        const grown = states[i].balance * (1 + monthlyReturn) * shock - (pot.payOutDividends ? dividend : 0);
+        const fee = monthlyFee(pot, grown);
+        states[i].balance = grown - fee + amount;
+        states[i].contributed += amount;
+        states[i].fees += fee;
+        states[i].dividends += dividend;
+      });
+    }
+
+    events.forEach((event, eventIndex) => {
+      if (eventMonth(event, startAge) !== month) return;
+      const i = potIndex.get(event.potId);
+      if (i === undefined) return;
+      const applied = event.amount < 0 ? -Math.min(-event.amount, Math.max(0, states[i].balance)) : event.amount;
+      states[i].balance += applied;
+      // Withdrawals are tracked on their own so they never eat into what was paid in
+      if (applied < 0) states[i].withdrawn -= applied;
+      else states[i].contributed += applied;
+      appliedEvents.push({ ...event, eventIndex, applied, shortfall: applied - event.amount });
+    });
+
+    const total = states.reduce((sum, s) => sum + s.balance, 0);
+    const contributed = states.reduce((sum, s) => sum + s.contributed, 0);
+    const withdrawn = states.reduce((sum, s) => sum + s.withdrawn, 0);
+    const fees = states.reduce((sum, s) => sum + s.fees, 0);
+    const dividends = states.reduce((sum, s) => sum + s.dividends, 0);
+    if (recordMonthly) {
+      monthly.push({
+        month,
+        age,
+        total,
+        contributed,
+        withdrawn,
+        fees,
+        dividends,
+        pots: snapshotAll(pots, states, false),
+      });
+    }
+
+    if (month % 12 === 0) {
+      yearly.push({
+        age,
+        total: Math.round(total),
+        contributed: Math.round(contributed),
+        withdrawn: Math.round(withdrawn),
+        growth: Math.round(total + withdrawn - contributed),
+        fees: Math.round(fees),
+        dividends: Math.round(dividends),
+        pots: snapshotAll(pots, states, true),
+      });
+    }
+  }
+
+  return { yearly, monthly, final: yearly[yearly.length - 1], events: appliedEvents };
+}
@@ -0,0 +1,48 @@
+import { runProjection } from './engine';
+import type { ProjectionInput, ProjectionResult, ProjectionYear } from './types';
+
+/** Same plan with every percentage and fixed fee removed. */
+export function withoutFees(input: ProjectionInput): ProjectionInput {
+  return {
+    ...input,
+    pots: input.pots.map((p) => ({ ...p, feePercent: 0, fixedFeeAnnual: 0 })),
+  };
+}
+
+export function hasFees(input: ProjectionInput): boolean {
+  return input.pots.some((p) => (p.feePercent ?? 0) > 0 || (p.fixedFeeAnnual ?? 0) > 0);
+}
+
+/** Fills `feeDrag` on each row from a zero-fee run of the same plan (rows are matched by index). */
+export function withFeeDrag(rows: ProjectionYear[], zeroFeeRows: ProjectionYear[]): ProjectionYear[] {
+  return rows.map((row, i) => ({ ...row, feeDrag: Math.max(0, (zeroFeeRows[i]?.total ?? row.total) - row.total) }));
+}
+
+/** Runs the plan with and without fees; the yearly rows carry `feeDrag`. */
+export function runProjectionWithFeeDrag(input: ProjectionInput): ProjectionResult {
+  const result = runProjection(input);
+  const zeroFee = hasFees(input) ? runProjection(withoutFees(input)).yearly : result.yearly;
+  const yearly = withFeeDrag(result.yearly, zeroFee);
+  return { ...result, yearly, final: yearly[yearly.length - 1] };
+}
+
+export type FeeSummary = {
+  /** Cumulative fees charged over the projection. */
+  totalFees: number;
+  /** Final balance shortfall versus zero fees (fees plus the growth they would have earned). */
+  feeDrag: number;
+  /** `feeDrag` as a percentage of the zero-fee final balance. */
+  feeDragPercent: number;
+};
+
+export function summariseFees(rows: ProjectionYear[]): FeeSummary {
+  const last = rows[rows.length - 1];
+  if (!last) return { totalFees: 0, feeDrag: 0, feeDragPercent: 0 };
+  const feeDrag = last.feeDrag ?? 0;
+  const zeroFeeTotal = last.total + feeDrag;
+  return {
+    totalFees: last.fees,
+    feeDrag,
+    feeDragPercent: zeroFeeTotal > 0 ? (feeDrag / zeroFeeTotal) * 100 : 0,
+  };
+}
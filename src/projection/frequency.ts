@@ -0,0 +1,56 @@
+import type { CompoundingConvention, ContributionFrequency } from './types';
+
+/** Contribution frequencies in menu order, with the words used in labels. */
+export const CONTRIBUTION_FREQUENCIES: Array<{
+  value: ContributionFrequency;
+  label: string;
+  /** "week", "fortnight", … as in "$/week". */
+  unit: string;
+  perYear: number;
+}> = [
+  { value: 'weekly', label: 'Weekly', unit: 'week', perYear: 52 },
+  { value: 'fortnightly', label: 'Fortnightly', unit: 'fortnight', perYear: 26 },
+  { value: 'monthly', label: 'Monthly', unit: 'month', perYear: 12 },
+  { value: 'quarterly', label: 'Quarterly', unit: 'quarter', perYear: 4 },
+  { value: 'annually', label: 'Annually', unit: 'year', perYear: 1 },
+];
+
+export function findFrequency(frequency: ContributionFrequency = 'monthly') {
+  return CONTRIBUTION_FREQUENCIES.find((f) => f.value === frequency) ?? CONTRIBUTION_FREQUENCIES[2];
+}
+
+/** Monthly equivalent of a per-payment amount (e.g. $100/week ≈ $433/month). */
+export function toMonthlyAmount(amount: number, frequency?: ContributionFrequency): number {
+  return (amount * findFrequency(frequency).perYear) / 12;
+}
+
+/** Per-payment amount with the same yearly total as `monthly`. */
+export function fromMonthlyAmount(monthly: number, frequency?: ContributionFrequency): number {
+  return (monthly * 12) / findFrequency(frequency).perYear;
+}
+
+/** Same yearly total expressed at another frequency (e.g. $500/month → $115/week), rounded to the dollar. */
+export function convertAmount(amount: number, from: ContributionFrequency, to: ContributionFrequency): number {
+  return Math.round(fromMonthlyAmount(toMonthlyAmount(amount, from), to));
+}
+
+/**
+ * Share of the monthly-equivalent amount paid in a given month (1-based from the start).
+ * Weekly and fortnightly pay a little every month; quarterly and annual pay three or twelve months' worth at once.
+ */
+export function contributionMonthFactor(frequency: ContributionFrequency | undefined, month: number): number {
+  if (frequency === 'quarterly') return month % 3 === 0 ? 3 : 0;
+  if (frequency === 'annually') return month % 12 === 0 ? 12 : 0;
+  return 1;
+}
+
+/** Monthly growth rate for an annual return: a twelfth of it (nominal) or the rate that compounds to it (effective). */
+export function monthlyRate(annualPercent: number, compounding: CompoundingConvention = 'monthly'): number {
+  return compounding === 'effective' ? Math.pow(1 + annualPercent / 100, 1 / 12) - 1 : annualPercent / 100 / 12;
+}
+
+export function describeCompounding(compounding: CompoundingConvention = 'monthly'): string {
+  return compounding === 'effective'
+    ? 'Effective annual (the return is exactly what you earn in a year)'
+    : 'Monthly nominal (return ÷ 12 each month)';
+}
@@ -0,0 +1,58 @@
+import type { PotInput, ProjectionInput, ReturnScheduleEntry } from './types';
+
+/** Latest schedule entry at or below `age`, if any. */
+function scheduledReturn(age: number, schedule?: ReturnScheduleEntry[]): number | undefined {
+  if (!schedule?.length) return undefined;
+  const sorted = [...schedule].sort((a, b) => b.age - a.age);
+  return sorted.find((entry) => age >= entry.age)?.annualReturn;
+}
+
+/**
+ * Annual return a pot earns at `age`, in the engine's order of precedence: the market path, the pot's own path,
+ * its return schedule, its flat return, then the projection's return.
+ * `year` is the number of whole years since the projection started (the last year for ages at the very end).
+ */
+export function returnInForce(
+  input: ProjectionInput,
+  pot: PotInput,
+  age: number,
+  year = Math.min(input.years - 1, Math.max(0, Math.floor(age - input.startAge)))
+): number {
+  return (
+    input.annualReturnPath?.[year] ??
+    pot.annualReturnPath?.[year] ??
+    scheduledReturn(age, pot.returnSchedule) ??
+    pot.annualReturn ??
+    input.annualReturn
+  );
+}
+
+/**
+ * Lifecycle preset: the growth return until `deRiskAge`, then equal yearly steps down to `finalReturn`
+ * over `stepYears`, the way lifecycle super options move into defensive assets.
+ */
+export function lifecycleSchedule(
+  growthReturn: number,
+  finalReturn: number,
+  deRiskAge: number,
+  stepYears: number
+): ReturnScheduleEntry[] {
+  const steps = Math.max(1, Math.round(stepYears));
+  return Array.from({ length: steps }, (_, i) => ({
+    age: deRiskAge + i + 1,
+    annualReturn: Math.round((growthReturn - ((growthReturn - finalReturn) * (i + 1)) / steps) * 100) / 100,
+  }));
+}
+
+/** "8% until 50, stepping down to 5.5% by 60" — short enough for an assumptions list. */
+export function describeReturnSchedule(schedule: ReturnScheduleEntry[], baseReturn: number): string {
+  if (schedule.length === 0) return `${baseReturn}% at every age`;
+  const sorted = [...schedule].sort((a, b) => a.age - b.age);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (sorted.length > 3) {
+    const direction = last.annualReturn < baseReturn ? 'stepping down' : 'moving';
+    return `${baseReturn}% until ${first.age}, ${direction} to ${last.annualReturn}% by ${last.age}`;
+  }
+  return `${baseReturn}% until ${first.age}, then ${sorted.map((e) => `${e.annualReturn}% from ${e.age}`).join(', ')}`;
+}
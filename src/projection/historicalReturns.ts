@@ -0,0 +1,57 @@
+/**
+ * Bundled calendar-year index returns (percent) for offline historical replays.
+ * Figures are rounded, approximate values from public index histories and are for education only.
+ */
+export type HistoricalIndex = {
+  id: string;
+  label: string;
+  description: string;
+  /** Calendar year of `returns[0]`. */
+  firstYear: number;
+  returns: number[];
+};
+
+/** Broad US market: S&P 500 total return (dividends reinvested) — blueprint Step 2. */
+const BROAD_MARKET_1972: number[] = [
+  18.98, -14.66, -26.47, 37.2, 23.84, -7.18, 6.56, 18.44, 32.42, -4.91, // 1972–1981
+  21.55, 22.56, 6.27, 31.73, 18.67, 5.25, 16.61, 31.69, -3.1, 30.47, // 1982–1991
+  7.62, 10.08, 1.32, 37.58, 22.96, 33.36, 28.58, 21.04, -9.1, -11.89, // 1992–2001
+  -22.1, 28.68, 10.88, 4.91, 15.79, 5.49, -37.0, 26.46, 15.06, 2.11, // 2002–2011
+  16.0, 32.39, 13.69, 1.38, 11.96, 21.83, -4.38, 31.49, 18.4, 28.71, // 2012–2021
+  -18.11, 26.29, 25.02, // 2022–2024
+];
+
+/** Tech-heavy US market: Nasdaq Composite price return — blueprint Step 3. */
+const TECH_HEAVY_1972: number[] = [
+  17.17, -31.06, -35.11, 29.76, 26.1, 7.33, 12.31, 28.11, 33.88, -3.21, // 1972–1981
+  18.67, 19.87, -11.22, 31.36, 7.36, -5.26, 15.41, 19.26, -17.8, 56.84, // 1982–1991
+  15.45, 14.75, -3.2, 39.92, 22.71, 21.64, 39.63, 85.59, -39.29, -21.05, // 1992–2001
+  -31.53, 50.01, 8.59, 1.37, 9.52, 9.81, -40.54, 43.89, 16.91, -1.8, // 2002–2011
+  15.91, 38.32, 13.4, 5.73, 7.5, 28.24, -3.88, 35.23, 43.64, 21.39, // 2012–2021
+  -33.1, 43.42, 28.64, // 2022–2024
+];
+
+export const HISTORICAL_INDICES: HistoricalIndex[] = [
+  {
+    id: 'broad',
+    label: 'Broad market (S&P 500)',
+    description: 'S&P 500 total return, dividends reinvested',
+    firstYear: 1972,
+    returns: BROAD_MARKET_1972,
+  },
+  {
+    id: 'tech',
+    label: 'Tech-heavy (Nasdaq)',
+    description: 'Nasdaq Composite price return',
+    firstYear: 1972,
+    returns: TECH_HEAVY_1972,
+  },
+];
+
+export function findHistoricalIndex(id: string): HistoricalIndex {
+  return HISTORICAL_INDICES.find((i) => i.id === id) ?? HISTORICAL_INDICES[0];
+}
+
+export function lastYearOf(index: HistoricalIndex): number {
+  return index.firstYear + index.returns.length - 1;
+}
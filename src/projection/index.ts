@@ -0,0 +1,115 @@
+/**
+ * Framework-free projection maths shared by the Family and Kids blueprints and their reports.
+ * Nothing here imports React or touches the DOM, so it can be reused in other tools.
+ */
+export { runProjection, contributionAtAge } from './engine';
+export type {
+  AgeRange,
+  AppliedEvent,
+  CompoundingConvention,
+  ContributionFrequency,
+  ContributionBreak,
+  ContributionIndexation,
+  MarketShock,
+  PotFees,
+  PotInput,
+  PotSnapshot,
+  ProjectionEvent,
+  ProjectionInput,
+  ProjectionMonth,
+  ProjectionOptions,
+  ProjectionResult,
+  ProjectionYear,
+  ReturnScheduleEntry,
+  ScheduleEntry,
+} from './types';
+export {
+  applyValueBasis,
+  deflateFields,
+  deflateYearly,
+  deflationFactor,
+  describeValueBasis,
+  toTodaysDollars,
+  type ValueBasis,
+} from './inflation';
+export {
+  hasFees,
+  runProjectionWithFeeDrag,
+  summariseFees,
+  withFeeDrag,
+  withoutFees,
+  type FeeSummary,
+} from './fees';
+export {
+  createRandom,
+  probabilityOfReaching,
+  runMonteCarlo,
+  type MonteCarloResult,
+  type MonteCarloSettings,
+  type PercentileBand,
+} from './monteCarlo';
+export {
+  HISTORICAL_INDICES,
+  findHistoricalIndex,
+  lastYearOf,
+  type HistoricalIndex,
+} from './historicalReturns';
+export { findOutcome, runBacktest, type BacktestOutcome, type BacktestResult } from './backtest';
+export {
+  maxSustainableSpend,
+  runDrawdown,
+  type DrawdownResult,
+  type DrawdownSettings,
+  type DrawdownYear,
+} from './drawdown';
+export { breakFactor, breakRegions, describeBreak, describeReduction, type BreakRegion } from './breaks';
+export { DEFAULT_PRESERVATION_AGE, accessibleBalance, isAccessible } from './access';
+export {
+  contributionsFromSalary,
+  incomeTax,
+  medicareLevy,
+  salaryAtYear,
+  salarySchedules,
+  takeHomePay,
+  type SalarySettings,
+} from './salary';
+export {
+  ageReachingTarget,
+  balanceForIncome,
+  solveForTarget,
+  type GoalSolveMode,
+} from './solver';
+export { delayedStart, summariseCostOfWaiting, type CostOfWaiting } from './delay';
+export {
+  CONTRIBUTION_FREQUENCIES,
+  contributionMonthFactor,
+  convertAmount,
+  describeCompounding,
+  findFrequency,
+  fromMonthlyAmount,
+  monthlyRate,
+  toMonthlyAmount,
+} from './frequency';
+export { annualDividendIncome } from './dividends';
+export {
+  BLOCK_CORRELATION,
+  DEFAULT_PORTFOLIO_BLOCKS,
+  blendPortfolio,
+  driftedWeights,
+  normaliseWeights,
+  portfolioReturnPath,
+  type PortfolioBlend,
+  type PortfolioBlock,
+  type PortfolioSettings,
+} from './portfolio';
+export { describeReturnSchedule, lifecycleSchedule, returnInForce } from './glidePath';
+export { marketShockFactor, summariseStressTest, type StressTestSummary } from './stressTest';
+export { returnWindow, runSequenceRisk, unwrappedYears, type SequenceRiskResult } from './sequenceRisk';
+export {
+  contributionSteps,
+  findMilestones,
+  type ContributionStep,
+  type Milestone,
+  type MilestoneId,
+} from './milestones';
+export { yearlyFlows, yearlyFlowsInBasis, type YearFlow } from './yearlyFlows';
@@ -0,0 +1,75 @@
+import type { PotSnapshot, ProjectionYear } from './types';
+
+/** How money values are expressed: as future dollars, or deflated back to today's purchasing power. */
+export type ValueBasis = 'nominal' | 'real';
+
+/** Divisor that turns a dollar amount at `age` into today's dollars (today = `baseAge`). */
+export function deflationFactor(age: number, baseAge: number, inflationRate: number): number {
+  return Math.pow(1 + inflationRate / 100, Math.max(0, age - baseAge));
+}
+
+/** Converts a nominal amount at `age` into today's dollars. */
+export function toTodaysDollars(amount: number, age: number, baseAge: number, inflationRate: number): number {
+  return amount / deflationFactor(age, baseAge, inflationRate);
+}
+
+function deflatePot(pot: PotSnapshot, factor: number): PotSnapshot {
+  return {
+    balance: Math.round(pot.balance / factor),
+    contributed: Math.round(pot.contributed / factor),
+    withdrawn: Math.round(pot.withdrawn / factor),
+    growth: Math.round(pot.growth / factor),
+    fees: Math.round(pot.fees / factor),
+    dividends: Math.round(pot.dividends / factor),
+  };
+}
+
+/** Re-expresses yearly rows in today's dollars; `baseAge` is the age treated as "today". */
+export function deflateYearly(rows: ProjectionYear[], baseAge: number, inflationRate: number): ProjectionYear[] {
+  return rows.map((row) => {
+    const factor = deflationFactor(row.age, baseAge, inflationRate);
+    const pots: Record<string, PotSnapshot> = {};
+    for (const [id, pot] of Object.entries(row.pots)) pots[id] = deflatePot(pot, factor);
+    return {
+      ...row,
+      total: Math.round(row.total / factor),
+      contributed: Math.round(row.contributed / factor),
+      withdrawn: Math.round(row.withdrawn / factor),
+      growth: Math.round(row.growth / factor),
+      fees: Math.round(row.fees / factor),
+      dividends: Math.round(row.dividends / factor),
+      feeDrag: row.feeDrag === undefined ? undefined : Math.round(row.feeDrag / factor),
+      pots,
+    };
+  });
+}
+
+/** Deflates the named numeric fields of any age-keyed rows (e.g. percentile bands). */
+export function deflateFields<T extends { age: number }>(
+  rows: T[],
+  fields: Array<keyof T>,
+  baseAge: number,
+  inflationRate: number
+): T[] {
+  return rows.map((row) => {
+    const factor = deflationFactor(row.age, baseAge, inflationRate);
+    const out = { ...row };
+    for (const f of fields) out[f] = Math.round((row[f] as number) / factor) as T[typeof f];
+    return out;
+  });
+}
+
+/** Applies the chosen basis: nominal rows pass through untouched. */
+export function applyValueBasis(
+  rows: ProjectionYear[],
+  basis: ValueBasis,
+  baseAge: number,
+  inflationRate: number
+): ProjectionYear[] {
+  return basis === 'real' ? deflateYearly(rows, baseAge, inflationRate) : rows;
+}
+
+/** Short human label for reports, e.g. "Today's dollars (2.5% p.a. inflation)". */
+export function describeValueBasis(basis: ValueBasis, inflationRate: number): string {
+  return basis === 'real' ? `Today's dollars (${inflationRate}% p.a. inflation)` : 'Nominal (future) dollars';
+}
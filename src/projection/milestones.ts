@@ -0,0 +1,47 @@
+import type { ProjectionYear, ScheduleEntry } from './types';
+
+export type MilestoneId = 'first100k' | 'firstMillion' | 'growthOvertakes';
+
+/** A point worth flagging on the chart; `total` is in the basis of the rows it was found in. */
+export type Milestone = { id: MilestoneId; age: number; total: number; label: string };
+
+const BALANCE_MILESTONES: Array<{ id: MilestoneId; amount: number; label: string }> = [
+  { id: 'first100k', amount: 100000, label: 'First $100k' },
+  { id: 'firstMillion', amount: 1000000, label: 'First $1M' },
+];
+
+/**
+ * First year-end at $100k and at $1M, and the first where growth has overtaken the money put in.
+ * Milestones already passed in the first row (e.g. a large starting balance) are left out.
+ */
+export function findMilestones(rows: ProjectionYear[]): Milestone[] {
+  const first = rows[0];
+  if (!first) return [];
+  const milestones: Milestone[] = [];
+  BALANCE_MILESTONES.forEach(({ id, amount, label }) => {
+    if (first.total >= amount) return;
+    const row = rows.find((r) => r.total >= amount);
+    if (row) milestones.push({ id, age: row.age, total: row.total, label });
+  });
+  if (first.growth <= first.contributed) {
+    const row = rows.find((r) => r.contributed > 0 && r.growth > r.contributed);
+    if (row) milestones.push({ id: 'growthOvertakes', age: row.age, total: row.total, label: 'Growth > invested' });
+  }
+  return milestones.sort((a, b) => a.age - b.age);
+}
+
+/** A schedule entry that actually changes the amount, with the amount it replaces. */
+export type ContributionStep = ScheduleEntry & { previous: number };
+
+/** Schedule entries in age order that change the amount in force, starting from `base`. */
+export function contributionSteps(base: number, schedule: ScheduleEntry[]): ContributionStep[] {
+  let previous = base;
+  return [...schedule]
+    .sort((a, b) => a.age - b.age)
+    .flatMap((entry) => {
+      if (entry.amount === previous) return [];
+      const step = { ...entry, previous };
+      previous = entry.amount;
+      return [step];
+    });
+}
@@ -0,0 +1,94 @@
+import { runProjection } from './engine';
+import type { ProjectionInput } from './types';
+
+export type MonteCarloSettings = {
+  /** Mean annual return in percent. */
+  meanReturn: number;
+  /** Standard deviation of annual returns in percent. */
+  volatility: number;
+  paths: number;
+  /** Same seed + same inputs = same bands, on screen and in the PDF. */
+  seed: number;
+};
+
+/** Percentile balances at one age across all simulated paths. */
+export type PercentileBand = { age: number; p10: number; p50: number; p90: number };
+
+export type MonteCarloResult = {
+  bands: PercentileBand[];
+  /** Final balance of every path, sorted ascending. */
+  finals: number[];
+  settings: MonteCarloSettings;
+};
+
+/** Worst single-year loss a simulated path can draw (percent). */
+const MIN_ANNUAL_RETURN = -95;
+
+/** Small, fast seeded PRNG (mulberry32) returning floats in [0, 1). */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box–Muller). */
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[idx];
+}
+
+/**
+ * Replays the plan over `paths` random sequences of annual returns (normal, mean/volatility in percent)
+ * and reports 10th/50th/90th percentile balances for every year.
+ */
+export function runMonteCarlo(input: ProjectionInput, settings: MonteCarloSettings): MonteCarloResult {
+  const random = createRandom(settings.seed);
+  const years = Math.max(1, Math.ceil(input.years));
+  const paths = Math.max(1, Math.round(settings.paths));
+
+  // totalsByYear[yearIndex][pathIndex]
+  const totalsByYear: number[][] = [];
+  const ages: number[] = [];
+
+  for (let p = 0; p < paths; p++) {
+    const annualReturnPath: number[] = [];
+    for (let y = 0; y < years; y++) {
+      annualReturnPath.push(Math.max(MIN_ANNUAL_RETURN, settings.meanReturn + settings.volatility * normal(random)));
+    }
+    const { yearly } = runProjection({ ...input, annualReturnPath }, { monthly: false });
+    yearly.forEach((row, y) => {
+      if (!totalsByYear[y]) {
+        totalsByYear[y] = [];
+        ages[y] = row.age;
+      }
+      totalsByYear[y].push(row.total);
+    });
+  }
+
+  const bands = totalsByYear.map((totals, y) => {
+    const sorted = [...totals].sort((a, b) => a - b);
+    return { age: ages[y], p10: percentile(sorted, 10), p50: percentile(sorted, 50), p90: percentile(sorted, 90) };
+  });
+  const finals = [...(totalsByYear[totalsByYear.length - 1] ?? [])].sort((a, b) => a - b);
+
+  return { bands, finals, settings };
+}
+
+/** Share of paths (0–100) whose final balance is at least `target`. */
+export function probabilityOfReaching(finals: number[], target: number): number {
+  if (finals.length === 0) return 0;
+  const reached = finals.filter((f) => f >= target).length;
+  return (reached / finals.length) * 100;
+}
@@ -0,0 +1,75 @@
+/** One building block of a portfolio, e.g. a broad index ETF. Percentages are per year. */
+export type PortfolioBlock = {
+  id: string;
+  label: string;
+  /** Target share in percent; weights are scaled to add to 100. */
+  weight: number;
+  annualReturn: number;
+  volatility: number;
+  /** Fund management fee, taken off the block's return. */
+  feePercent: number;
+};
+
+export type PortfolioSettings = {
+  blocks: PortfolioBlock[];
+  /** Reset to the target weights every year; otherwise the mix drifts with each block's growth. */
+  rebalance: boolean;
+};
+
+/** The blueprint's building blocks: a broad index ETF core, a small tech slice and a dividend ETF. */
+export const DEFAULT_PORTFOLIO_BLOCKS: PortfolioBlock[] = [
+  { id: 'broad', label: 'Broad index ETF', weight: 70, annualReturn: 8, volatility: 15, feePercent: 0.07 },
+  { id: 'tech', label: 'Tech ETF', weight: 10, annualReturn: 10, volatility: 25, feePercent: 0.35 },
+  { id: 'dividend', label: 'Dividend ETF', weight: 20, annualReturn: 7, volatility: 13, feePercent: 0.3 },
+];
+
+/** Assumed correlation between any two blocks when blending volatility; share funds tend to move together. */
+export const BLOCK_CORRELATION = 0.8;
+
+export type PortfolioBlend = {
+  /** Weighted return after fees, percent p.a.; what the projection uses. */
+  annualReturn: number;
+  /** Weighted return before fees. */
+  grossReturn: number;
+  feePercent: number;
+  volatility: number;
+};
+
+/** Weights as fractions adding to 1 (equal shares when every weight is zero). */
+export function normaliseWeights(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  return weights.map((w) => (total > 0 ? Math.max(0, w) / total : 1 / weights.length));
+}
+
+/** Weighted return, fee and volatility of the blocks at `weights` (their target weights by default). */
+export function blendPortfolio(blocks: PortfolioBlock[], weights = blocks.map((b) => b.weight)): PortfolioBlend {
+  const w = normaliseWeights(weights);
+  const grossReturn = blocks.reduce((sum, b, i) => sum + w[i] * b.annualReturn, 0);
+  const feePercent = blocks.reduce((sum, b, i) => sum + w[i] * b.feePercent, 0);
+  let variance = 0;
+  blocks.forEach((a, i) =>
+    blocks.forEach((b, j) => {
+      variance += w[i] * w[j] * a.volatility * b.volatility * (i === j ? 1 : BLOCK_CORRELATION);
+    })
+  );
+  return { annualReturn: grossReturn - feePercent, grossReturn, feePercent, volatility: Math.sqrt(variance) };
+}
+
+/** Percent shares after `years` left alone, each block growing at its own return after fees. */
+export function driftedWeights(blocks: PortfolioBlock[], years: number): number[] {
+  const w = normaliseWeights(blocks.map((b) => b.weight));
+  const grown = blocks.map((b, i) => w[i] * Math.pow(1 + (b.annualReturn - b.feePercent) / 100, years));
+  return normaliseWeights(grown).map((share) => share * 100);
+}
+
+/**
+ * Return per projection year for the pot holding the portfolio. Rebalanced, it is the same every year;
+ * left alone, the mix drifts toward the faster-growing blocks (as if the starting mix were never topped up).
+ */
+export function portfolioReturnPath(portfolio: PortfolioSettings, years: number): number[] {
+  const { blocks, rebalance } = portfolio;
+  return Array.from(
+    { length: years },
+    (_, year) => blendPortfolio(blocks, rebalance ? undefined : driftedWeights(blocks, year)).annualReturn
+  );
+}
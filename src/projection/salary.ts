@@ -0,0 +1,76 @@
+import type { ScheduleEntry } from './types';
+
+/** Income mode: contributions are derived from a salary that grows each year. */
+export type SalarySettings = {
+  /** Gross salary per year, before super. */
+  annualSalary: number;
+  /** Employer super guarantee as a percent of salary (e.g. 12). */
+  superGuaranteeRate: number;
+  /** Salary increase per year, in percent. */
+  wageGrowth: number;
+  /** Share of take-home pay invested personally, in percent. */
+  personalSavingsRate: number;
+};
+
+/** Resident tax brackets (2024–25 onwards): [threshold, base tax, marginal rate]. */
+const TAX_BRACKETS: Array<[number, number, number]> = [
+  [190000, 51638, 0.45],
+  [135000, 31288, 0.37],
+  [45000, 4288, 0.3],
+  [18200, 0, 0.16],
+];
+
+const MEDICARE_LEVY = 0.02;
+/** Singles low-income threshold (2024–25): no levy at or below it. */
+const MEDICARE_LEVY_THRESHOLD = 27222;
+/** Above the threshold the levy phases in at 10c per dollar until it reaches the full 2% (at $34,027). */
+const MEDICARE_LEVY_PHASE_IN = 0.1;
+
+/** Medicare levy for a single with no dependants: nil up to the low-income threshold, then phased in. */
+export function medicareLevy(grossAnnual: number): number {
+  if (grossAnnual <= MEDICARE_LEVY_THRESHOLD) return 0;
+  return Math.min(grossAnnual * MEDICARE_LEVY, (grossAnnual - MEDICARE_LEVY_THRESHOLD) * MEDICARE_LEVY_PHASE_IN);
+}
+
+/**
+ * Income tax plus Medicare levy on a gross annual salary. The levy uses the singles low-income threshold and
+ * phase-in; no offsets, surcharge or HELP.
+ */
+export function incomeTax(grossAnnual: number): number {
+  const bracket = TAX_BRACKETS.find(([threshold]) => grossAnnual > threshold);
+  if (!bracket) return 0;
+  const [threshold, base, rate] = bracket;
+  return base + (grossAnnual - threshold) * rate + medicareLevy(grossAnnual);
+}
+
+export function takeHomePay(grossAnnual: number): number {
+  return Math.max(0, grossAnnual - incomeTax(grossAnnual));
+}
+
+export function salaryAtYear(settings: SalarySettings, year: number): number {
+  return settings.annualSalary * Math.pow(1 + settings.wageGrowth / 100, year);
+}
+
+/** Monthly super and personal contributions for one year of salary. */
+export function contributionsFromSalary(grossAnnual: number, settings: SalarySettings): { super: number; personal: number } {
+  return {
+    super: Math.round((grossAnnual * settings.superGuaranteeRate) / 100 / 12),
+    personal: Math.round((takeHomePay(grossAnnual) * settings.personalSavingsRate) / 100 / 12),
+  };
+}
+
+/** One schedule entry per year of the projection for each pot, following the salary as it grows. */
+export function salarySchedules(
+  settings: SalarySettings,
+  startAge: number,
+  years: number
+): { super: ScheduleEntry[]; personal: ScheduleEntry[] } {
+  const superSchedule: ScheduleEntry[] = [];
+  const personalSchedule: ScheduleEntry[] = [];
+  for (let y = 0; y < Math.max(1, Math.ceil(years)); y++) {
+    const amounts = contributionsFromSalary(salaryAtYear(settings, y), settings);
+    superSchedule.push({ age: startAge + y, amount: amounts.super });
+    personalSchedule.push({ age: startAge + y, amount: amounts.personal });
+  }
+  return { super: superSchedule, personal: personalSchedule };
+}
@@ -0,0 +1,53 @@
+import { runDrawdown, type DrawdownResult, type DrawdownSettings } from './drawdown';
+import { lastYearOf, type HistoricalIndex } from './historicalReturns';
+
+/** One run of market years spent through twice: in the order they happened, then back to front. */
+export type SequenceRiskResult = {
+  /** Returns in percent, in the order they happened. */
+  returns: number[];
+  /** Simple average of `returns`; the same whichever way round they come. */
+  averageReturn: number;
+  /** Compound (geometric) return per year, also order-free. */
+  compoundReturn: number;
+  forward: DrawdownResult;
+  reversed: DrawdownResult;
+  /** Final balance with nothing withdrawn, identical in both orders. */
+  untouchedFinal: number;
+};
+
+/**
+ * `years` index returns from `startYear` onwards, wrapping back to the first year of history
+ * when the run goes past the end of the data.
+ */
+export function returnWindow(index: HistoricalIndex, startYear: number, years: number): number[] {
+  const count = index.returns.length;
+  const offset = Math.min(Math.max(0, startYear - index.firstYear), count - 1);
+  return Array.from({ length: Math.max(1, Math.ceil(years)) }, (_, i) => index.returns[(offset + i) % count]);
+}
+
+/** Years from `startYear` that come from the data before the window wraps. */
+export function unwrappedYears(index: HistoricalIndex, startYear: number): number {
+  return Math.max(0, lastYearOf(index) - startYear + 1);
+}
+
+/**
+ * Spends `startBalance` from `startAge` with `returns` in order and reversed. Spending, indexation and life
+ * expectancy come from `settings`; its own return is ignored.
+ */
+export function runSequenceRisk(
+  startBalance: number,
+  startAge: number,
+  settings: DrawdownSettings,
+  returns: number[]
+): SequenceRiskResult {
+  const growth = returns.reduce((product, r) => product * (1 + r / 100), 1);
+  const untouched = runDrawdown(startBalance, startAge, { ...settings, annualSpending: 0, returnPath: returns });
+  return {
+    returns,
+    averageReturn: returns.length ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0,
+    compoundReturn: returns.length ? (Math.pow(Math.max(0, growth), 1 / returns.length) - 1) * 100 : 0,
+    forward: runDrawdown(startBalance, startAge, { ...settings, returnPath: returns }),
+    reversed: runDrawdown(startBalance, startAge, { ...settings, returnPath: [...returns].reverse() }),
+    untouchedFinal: untouched.yearly[untouched.yearly.length - 1]?.closing ?? Math.round(startBalance),
+  };
+}
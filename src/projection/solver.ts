@@ -0,0 +1,41 @@
+import { runProjection } from './engine';
+import type { ProjectionInput, ProjectionYear } from './types';
+
+/** What the goal solver varies to hit the target. */
+export type GoalSolveMode = 'monthly' | 'return' | 'age';
+
+function finalTotal(input: ProjectionInput): number {
+  return runProjection(input, { monthly: false }).final.total;
+}
+
+/**
+ * Smallest value in `[lo, hi]` whose plan ends at or above `target` (bisection).
+ * `build` turns a candidate value into a full plan, so schedule, breaks, fees and events all carry into the solve;
+ * the final balance must rise with the value. Returns null when even `hi` falls short.
+ */
+export function solveForTarget(
+  build: (value: number) => ProjectionInput,
+  target: number,
+  lo: number,
+  hi: number,
+  tolerance = 0.01
+): number | null {
+  if (finalTotal(build(lo)) >= target) return lo;
+  if (finalTotal(build(hi)) < target) return null;
+  while (hi - lo > tolerance) {
+    const mid = (lo + hi) / 2;
+    if (finalTotal(build(mid)) >= target) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+/** First yearly row at or above `target`, or null if the balance never gets there. */
+export function ageReachingTarget(rows: ProjectionYear[], target: number): number | null {
+  return rows.find((row) => row.total >= target)?.age ?? null;
+}
+
+/** Balance needed to pay `annualIncome` at a sustainable withdrawal rate (e.g. 4%). */
+export function balanceForIncome(annualIncome: number, withdrawalRate: number): number {
+  return withdrawalRate > 0 ? annualIncome / (withdrawalRate / 100) : 0;
+}
@@ -0,0 +1,56 @@
+import type { MarketShock, ProjectionYear } from './types';
+
+/**
+ * Extra growth multiplier from market shocks in a given month (1-based): the fall itself in the month the crash
+ * age is reached, then an even climb back to the pre-crash trend over `recoveryYears`.
+ */
+export function marketShockFactor(shocks: MarketShock[] | undefined, startAge: number, month: number): number {
+  if (!shocks?.length) return 1;
+  return shocks.reduce((factor, shock) => {
+    const crashMonth = Math.max(1, Math.round((shock.age - startAge) * 12));
+    const kept = 1 - Math.min(100, Math.max(0, shock.fallPercent)) / 100;
+    if (month === crashMonth) return factor * kept;
+    const recoveryMonths = Math.round(shock.recoveryYears * 12);
+    if (kept > 0 && recoveryMonths > 0 && month > crashMonth && month <= crashMonth + recoveryMonths) {
+      return factor * Math.pow(1 / kept, 1 / recoveryMonths);
+    }
+    return factor;
+  }, 1);
+}
+
+export type StressTestSummary = {
+  crashAge: number;
+  /** Dollars wiped off in the crash year. */
+  loss: number;
+  /** First age the stressed balance is back above its pre-crash level; null if not by the target age. */
+  recoveredAge: number | null;
+  baselineTotal: number;
+  stressedTotal: number;
+  /** `baselineTotal - stressedTotal`; negative when buying cheap after the fall more than made up for it. */
+  shortfall: number;
+  /** `shortfall` as a percentage of `baselineTotal`. */
+  shortfallPercent: number;
+};
+
+/** Compares a crash run with the baseline; the pre-crash level is the baseline balance at the crash age. */
+export function summariseStressTest(
+  baselineRows: ProjectionYear[],
+  stressedRows: ProjectionYear[],
+  crashAge: number
+): StressTestSummary {
+  const crashYear = Math.max(0, baselineRows.findIndex((r) => r.age >= crashAge));
+  const preCrash = baselineRows[crashYear]?.total ?? 0;
+  const recovered = stressedRows.find((r, i) => i > crashYear && r.total >= preCrash);
+  const baselineTotal = baselineRows[baselineRows.length - 1]?.total ?? 0;
+  const stressedTotal = stressedRows[stressedRows.length - 1]?.total ?? 0;
+  const shortfall = baselineTotal - stressedTotal;
+  return {
+    crashAge,
+    loss: Math.max(0, preCrash - (stressedRows[crashYear]?.total ?? 0)),
+    recoveredAge: recovered?.age ?? null,
+    baselineTotal,
+    stressedTotal,
+    shortfall,
+    shortfallPercent: baselineTotal > 0 ? (shortfall / baselineTotal) * 100 : 0,
+  };
+}
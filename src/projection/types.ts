@@ -0,0 +1,171 @@
+/** A contribution amount that applies from `age` onwards (until a later entry takes over). */
+export type ScheduleEntry = { age: number; amount: number };
+
+/** Annual return (percent) in force from `age` onwards, until a later entry takes over. */
+export type ReturnScheduleEntry = { age: number; annualReturn: number };
+
+/** Inclusive age range, e.g. a pause in contributions. */
+export type AgeRange = { fromAge: number; toAge: number };
+
+/** A period of lower (or no) contributions, e.g. parental leave on half super. */
+export type ContributionBreak = AgeRange & {
+  /** Percent of the contribution cut while the break lasts; 100 (the default) pauses it entirely. */
+  reductionPercent?: number;
+  /** Shown on the chart and in the report, e.g. "Sabbatical". */
+  label?: string;
+};
+
+/** Automatic yearly rise in the monthly contribution. */
+export type ContributionIndexation = {
+  /** Percent per year, compounding from the start of the projection. */
+  ratePercent: number;
+  /** Monthly amount indexation stops at (0 = no cap); never lowers a larger scheduled amount. */
+  capMonthly: number;
+};
+
+/** How often regular contributions are paid. */
+export type ContributionFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'annually';
+
+/** How an annual return becomes a monthly rate: a twelfth of it, or the rate that compounds to it over a year. */
+export type CompoundingConvention = 'monthly' | 'effective';
+
+/** One investment pot (e.g. super, personal, a child's account) with its own flows. */
+export type PotInput = {
+  id: string;
+  label: string;
+  initialBalance: number;
+  /** Annual return in percent for this pot; falls back to the projection's `annualReturn`. */
+  annualReturn?: number;
+  /**
+   * Return per year for this pot (percent, counted from the pot's first year), e.g. a drifting portfolio mix.
+   * Takes precedence over `returnSchedule` and `annualReturn`; an input-level `annualReturnPath` still wins.
+   */
+  annualReturnPath?: number[];
+  /** Age-based overrides of `annualReturn`, e.g. a lifecycle glide path that de-risks later in life. */
+  returnSchedule?: ReturnScheduleEntry[];
+  /** Base contribution per month; with a less frequent `contributionFrequency` it is paid in arrears as a lump. */
+  monthlyContribution: number;
+  /** Optional age-based overrides of the monthly contribution. */
+  schedule?: ScheduleEntry[];
+  /** Contributions are cut while the age falls inside any of these ranges; overlapping breaks take the deepest cut. */
+  breaks?: ContributionBreak[];
+  /** Raises the (scheduled) contribution each year. */
+  indexation?: ContributionIndexation;
+  /** Percentage fee on the balance per year (e.g. 0.2 for a 0.2% MER), charged monthly. */
+  feePercent?: number;
+  /** Fixed dollar fee per year (platform/admin), charged in equal monthly instalments. */
+  fixedFeeAnnual?: number;
+  /** The balance is locked until this age (e.g. super preservation age); unset means always accessible. */
+  preservationAge?: number;
+  /** Part of the annual return paid as dividends (percent p.a.); the rest is capital growth. */
+  dividendYield?: number;
+  /** Take dividends as cash instead of reinvesting them, so they leave the balance. */
+  payOutDividends?: boolean;
+};
+
+/** Fee settings for one pot, as edited in the UI. */
+export type PotFees = { feePercent: number; fixedFeeAnnual: number };
+
+/** One-off deposit (positive) or withdrawal (negative) into a pot at a given age. */
+export type ProjectionEvent = {
+  age: number;
+  potId: string;
+  amount: number;
+  label?: string;
+};
+
+/** One-off market fall across every pot, optionally followed by a recovery back to the pre-crash trend. */
+export type MarketShock = {
+  /** Age at which the fall hits. */
+  age: number;
+  /** Size of the fall in percent (35 = balances drop 35%). */
+  fallPercent: number;
+  /** Years of extra growth that climb back to where the balance would have been (0 = the loss is permanent). */
+  recoveryYears: number;
+};
+
+/** What an event actually did; withdrawals larger than the pot's balance are cut short. */
+export type AppliedEvent = ProjectionEvent & {
+  /** Position of the event in `ProjectionInput.events`. */
+  eventIndex: number;
+  /** Amount actually deposited (positive) or withdrawn (negative). */
+  applied: number;
+  /** Part of a withdrawal that could not be paid because the balance ran out (0 if none). */
+  shortfall: number;
+};
+
+export type ProjectionInput = {
+  startAge: number;
+  years: number;
+  /** Annual return in percent (e.g. 8 for 8% p.a.), compounded monthly per `compounding`. */
+  annualReturn: number;
+  /** Defaults to 'monthly' nominal (`annualReturn / 12` each month). */
+  compounding?: CompoundingConvention;
+  /** When contributions land; amounts stay monthly equivalents. Defaults to 'monthly'. */
+  contributionFrequency?: ContributionFrequency;
+  /**
+   * Optional market return per projection year (percent); year 0 covers months 1–12.
+   * When set it applies to every pot, overriding both `annualReturn` and per-pot returns.
+   */
+  annualReturnPath?: number[];
+  pots: PotInput[];
+  events?: ProjectionEvent[];
+  /** Market crashes applied on top of the returns, e.g. for a stress test. */
+  marketShocks?: MarketShock[];
+};
+
+/**
+ * `contributed` is everything paid in (starting balance, contributions and deposits) and `withdrawn` everything
+ * taken out by lump-sum withdrawals, so `growth = balance + withdrawn - contributed`. `growth` is net of fees;
+ * `fees` is the cumulative amount charged so far.
+ * `dividends` is the cumulative amount paid as dividends, whether reinvested or taken as cash.
+ */
+export type PotSnapshot = {
+  balance: number;
+  contributed: number;
+  withdrawn: number;
+  growth: number;
+  fees: number;
+  dividends: number;
+};
+
+/** Unrounded state at the end of each month (month 0 = starting position). */
+export type ProjectionMonth = {
+  month: number;
+  age: number;
+  total: number;
+  contributed: number;
+  withdrawn: number;
+  fees: number;
+  dividends: number;
+  pots: Record<string, PotSnapshot>;
+};
+
+/** Rounded yearly point, shaped for charts and reports; the money fields add up as in `PotSnapshot`. */
+export type ProjectionYear = {
+  age: number;
+  total: number;
+  contributed: number;
+  withdrawn: number;
+  growth: number;
+  fees: number;
+  dividends: number;
+  /** How far `total` trails the same plan with zero fees; filled in by `withFeeDrag`. */
+  feeDrag?: number;
+  pots: Record<string, PotSnapshot>;
+};
+
+export type ProjectionOptions = {
+  /** Set to false to skip the month-by-month record (much cheaper when running thousands of paths). */
+  monthly?: boolean;
+};
+
+export type ProjectionResult = {
+  yearly: ProjectionYear[];
+  /** Empty when run with `{ monthly: false }`. */
+  monthly: ProjectionMonth[];
+  /** Last yearly point (the position at the end of the projection). */
+  final: ProjectionYear;
+  /** Events that fell inside the projection, in the order they were applied. */
+  events: AppliedEvent[];
+};
@@ -0,0 +1,59 @@
+import { deflationFactor, type ValueBasis } from './inflation';
+import type { ProjectionYear } from './types';
+
+/** One projection year as money in and growth: `opening + contributions + growth = closing`. */
+export type YearFlow = {
+  /** 1 for the first year of the projection. */
+  year: number;
+  /** Age at the end of the year. */
+  age: number;
+  opening: number;
+  contributions: number;
+  growth: number;
+  closing: number;
+};
+
+/** The row fields the split needs. */
+type FlowRow = Pick<ProjectionYear, 'age' | 'total' | 'contributed' | 'withdrawn'>;
+
+/**
+ * Splits consecutive year-end rows into what went in and what the market added each year. Growth is net of
+ * fees, lump sums count as contributions (withdrawals as negative ones), and the first row is the starting
+ * balance rather than a year of its own.
+ */
+export function yearlyFlows(rows: FlowRow[]): YearFlow[] {
+  return rows.slice(1).map((row, i) => {
+    const previous = rows[i];
+    const contributions = row.contributed - previous.contributed - (row.withdrawn - previous.withdrawn);
+    return {
+      year: i + 1,
+      age: row.age,
+      opening: previous.total,
+      contributions,
+      growth: row.total - previous.total - contributions,
+      closing: row.total,
+    };
+  });
+}
+
+/**
+ * `yearlyFlows` in the chosen value basis. Pass nominal rows: each year is split in nominal dollars, then every
+ * figure is deflated by that year-end's factor. Splitting already-deflated rows would book inflation as negative
+ * contributions. Growth is what's left after rounding, so each row still adds up to its closing balance.
+ */
+export function yearlyFlowsInBasis(
+  nominalRows: Array<Pick<ProjectionYear, 'age' | 'total' | 'contributed' | 'withdrawn'>>,
+  basis: ValueBasis,
+  baseAge: number,
+  inflationRate: number
+): YearFlow[] {
+  const flows = yearlyFlows(nominalRows);
+  if (basis === 'nominal') return flows;
+  return flows.map((flow) => {
+    const factor = deflationFactor(flow.age, baseAge, inflationRate);
+    const opening = Math.round(flow.opening / factor);
+    const contributions = Math.round(flow.contributions / factor);
+    const closing = Math.round(flow.closing / factor);
+    return { ...flow, opening, contributions, growth: closing - opening - contributions, closing };
+  });
+}